@@ -0,0 +1,260 @@
+/**
+ * Reference relay server for board collaboration
+ * Clients join the room of a file id, operations are relayed to the other clients
+ * of the room and a joining client gets the board from a client already there.
+ * It only depends on node, run it with `pnpm relay [port]`, the port defaults to 8787.
+ */
+import { createServer } from 'node:http'
+import { createHash, randomUUID } from 'node:crypto'
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787)
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const MAX_PAYLOAD = 64 * 1024 * 1024 // boards are sent with their images inlined
+
+const Opcode = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa
+}
+
+/** @type {Map<string, Map<string, Client>>} room -> client id -> client */
+const rooms = new Map()
+
+const encodeFrame = (opcode, payload) => {
+  let header
+  if (payload.length < 126) {
+    header = Buffer.alloc(2)
+    header[1] = payload.length
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  header[0] = 0x80 | opcode
+  return Buffer.concat([header, payload])
+}
+
+class Client {
+  constructor(socket) {
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+    this.fragments = [] // payloads of a fragmented message
+    this.id = ''
+    this.room = ''
+    this.isSynced = false // has the board of the room
+    this.snapshotFrom = '' // client asked for the board
+  }
+
+  send(message) {
+    if (!this.socket.destroyed) {
+      this.socket.write(
+        encodeFrame(Opcode.TEXT, Buffer.from(JSON.stringify(message)))
+      )
+    }
+  }
+
+  /**
+   * Read the complete frames received so far
+   */
+  receive(chunk, onMessage) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    while (this.buffer.length >= 2) {
+      const buffer = this.buffer
+      const isFinal = (buffer[0] & 0x80) !== 0
+      const opcode = buffer[0] & 0x0f
+      const isMasked = (buffer[1] & 0x80) !== 0
+      let length = buffer[1] & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (buffer.length < 4) return
+        length = buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (buffer.length < 10) return
+        length = Number(buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+      if (length > MAX_PAYLOAD) {
+        this.socket.destroy()
+        return
+      }
+      const maskOffset = offset
+      if (isMasked) offset += 4
+      if (buffer.length < offset + length) return
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length))
+      if (isMasked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= buffer[maskOffset + (i % 4)]
+        }
+      }
+      this.buffer = buffer.subarray(offset + length)
+
+      switch (opcode) {
+        case Opcode.TEXT:
+        case Opcode.CONTINUATION:
+          this.fragments.push(payload)
+          if (isFinal) {
+            const text = Buffer.concat(this.fragments).toString('utf8')
+            this.fragments = []
+            onMessage(text)
+          }
+          break
+        case Opcode.PING:
+          this.socket.write(encodeFrame(Opcode.PONG, payload))
+          break
+        case Opcode.CLOSE:
+          this.socket.end(encodeFrame(Opcode.CLOSE, Buffer.alloc(0)))
+          return
+        default:
+          break
+      }
+    }
+  }
+}
+
+const getPeers = (client) => {
+  const room = rooms.get(client.room)
+  return room ? [...room.values()].filter((peer) => peer !== client) : []
+}
+
+const broadcast = (client, message) => {
+  getPeers(client).forEach((peer) => peer.send(message))
+}
+
+/**
+ * Ask a synced client of the room for its board, nobody has one in an empty room
+ */
+const requestSnapshot = (client) => {
+  const provider = getPeers(client).find((peer) => peer.isSynced)
+  if (!provider) {
+    client.isSynced = true
+    client.snapshotFrom = ''
+    client.send({ type: 'snapshot', data: null })
+    return
+  }
+  client.snapshotFrom = provider.id
+  provider.send({ type: 'snapshot-request', from: client.id })
+}
+
+const join = (client, message) => {
+  if (client.room || !message.room) {
+    return
+  }
+  // ids are given out here, a client could claim the id of another one
+  client.id = randomUUID()
+  client.room = String(message.room)
+  if (!rooms.has(client.room)) {
+    rooms.set(client.room, new Map())
+  }
+  const peers = getPeers(client)
+  rooms.get(client.room).set(client.id, client)
+  client.send({
+    type: 'joined',
+    clientId: client.id,
+    peers: peers.map((peer) => peer.id)
+  })
+  broadcast(client, { type: 'peer-joined', clientId: client.id })
+  if (peers.length) {
+    requestSnapshot(client)
+  } else {
+    client.isSynced = true
+  }
+}
+
+const leave = (client) => {
+  const room = rooms.get(client.room)
+  if (!room || room.get(client.id) !== client) {
+    return
+  }
+  room.delete(client.id)
+  if (!room.size) {
+    rooms.delete(client.room)
+    return
+  }
+  broadcast(client, { type: 'peer-left', clientId: client.id })
+  // clients waiting for the board of the leaving client ask another one
+  room.forEach((peer) => {
+    if (peer.snapshotFrom === client.id) {
+      requestSnapshot(peer)
+    }
+  })
+}
+
+const handleMessage = (client, text) => {
+  let message
+  try {
+    message = JSON.parse(text)
+  } catch (error) {
+    return
+  }
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return
+  }
+  if (message.type === 'join') {
+    join(client, message)
+    return
+  }
+  if (!client.room) {
+    return
+  }
+  if (message.type === 'snapshot') {
+    const target = rooms.get(client.room)?.get(message.to)
+    if (target?.snapshotFrom === client.id) {
+      target.isSynced = true
+      target.snapshotFrom = ''
+      target.send({ type: 'snapshot', data: message.data })
+    }
+    return
+  }
+  // operations and anything else go to the rest of the room
+  broadcast(client, { ...message, clientId: client.id })
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' })
+  res.end('paint board relay server\n')
+})
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key']
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.destroy()
+    return
+  }
+  const accept = createHash('sha1')
+    .update(key + WEBSOCKET_GUID)
+    .digest('base64')
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      ''
+    ].join('\r\n')
+  )
+
+  const client = new Client(socket)
+  socket.on('data', (chunk) => {
+    try {
+      client.receive(chunk, (text) => handleMessage(client, text))
+    } catch (error) {
+      // a bad message only drops its own client
+      socket.destroy()
+    }
+  })
+  socket.on('close', () => leave(client))
+  socket.on('error', () => socket.destroy())
+})
+
+server.listen(PORT, () => {
+  console.log(`paint board relay server listening on ws://localhost:${PORT}`)
+})
@@ -1,14 +1,21 @@
 import { FC, useState } from 'react'
-import useFileStore from '@/store/files'
+import useFileStore, { FileImportMode } from '@/store/files'
 import useBoardStore from '@/store/board'
 import { ActionMode } from '@/constants'
 import { paintBoard } from '@/utils/paintBoard'
+import { PdfPageSize } from '@/utils/export/pdf'
+import { exportWorkspace, importWorkspace } from '@/utils/export/workspace'
+import { isNewerBoardVersion } from '@/utils/common/migration'
+import { IValidationResult } from '@/utils/common/validate'
+import { useTranslation } from 'react-i18next'
 
 import AddFileIcon from '@/components/icons/fileList/addFile.svg?react'
 import RemoveFileIcon from '@/components/icons/fileList/removeFile.svg?react'
 import ExportFileIcon from '@/components/icons/fileList/exportFile.svg?react'
 import ImportFileIcon from '@/components/icons/fileList/importFile.svg?react'
 import Toast from '@/components/toast'
+import ValidationErrors from './validationErrors'
+import SnapshotList from './snapshotList'
 
 interface IProps {
   updateShow: (show: boolean) => void
@@ -22,10 +29,21 @@ const FileList: FC<IProps> = ({ updateShow }) => {
     updateTitle,
     addFile,
     saveJSON,
+    savePDF,
+    saveExcalidraw,
     uploadFile
   } = useFileStore()
   const { updateMode } = useBoardStore()
+  const { t } = useTranslation()
   const [showUploadFail, updateShowUploadFail] = useState(false) // upload file toast
+  const [showVersionWarning, updateShowVersionWarning] = useState(false) // file from a newer version toast
+  const [pdfPageSize, updatePdfPageSize] = useState(PdfPageSize.A4)
+  const [exportingPDF, updateExportingPDF] = useState(false)
+  const [importMode, updateImportMode] = useState(FileImportMode.KeepBoth) // workspace conflict handling
+  const [uploadError, updateUploadError] = useState<{
+    file: File
+    validation: IValidationResult
+  } | null>(null) // rejected upload file
 
   // update current file id
   const updateCurrentFileId = (id: string) => {
@@ -35,11 +53,46 @@ const FileList: FC<IProps> = ({ updateShow }) => {
   }
 
   // update file
-  const handleUploadFile = (file?: File) => {
-    uploadFile(file).then((res: boolean) => {
-      if (res) {
+  const handleUploadFile = (file?: File, skipInvalidObjects = false) => {
+    updateUploadError(null)
+    uploadFile(file, skipInvalidObjects).then(({ success, validation }) => {
+      if (success) {
         paintBoard.initCanvasStorage()
         updateMode(ActionMode.DRAW)
+        const { files, currentId } = useFileStore.getState()
+        const uploadedFile = files.find((item) => item.id === currentId)
+        if (isNewerBoardVersion(uploadedFile?.boardVersion)) {
+          updateShowVersionWarning(true)
+          setTimeout(() => {
+            updateShowVersionWarning(false)
+          }, 3000)
+        }
+      } else if (file && validation) {
+        updateUploadError({ file, validation })
+      } else {
+        toastUploadFail()
+      }
+    }, toastUploadFail)
+  }
+
+  const toastUploadFail = () => {
+    updateShowUploadFail(true)
+    setTimeout(() => {
+      updateShowUploadFail(false)
+    }, 1500)
+  }
+
+  // restore workspace backup
+  const handleUploadWorkspace = (file?: File) => {
+    if (!file) {
+      return
+    }
+    importWorkspace(file, importMode).then((res) => {
+      if (res) {
+        paintBoard.initCanvasStorage().then(() => {
+          paintBoard.handleMode()
+        })
+        updateMode(ActionMode.DRAW)
       } else {
         updateShowUploadFail(true)
         setTimeout(() => {
@@ -49,6 +102,14 @@ const FileList: FC<IProps> = ({ updateShow }) => {
     })
   }
 
+  // export the current file or all files as pdf
+  const handleSavePDF = (isAllFiles: boolean) => {
+    updateExportingPDF(true)
+    savePDF(pdfPageSize, isAllFiles).finally(() => {
+      updateExportingPDF(false)
+    })
+  }
+
   return (
     <div className="drawer drawer-end fixed top-0 z-[1]">
       <input id="my-drawer-4" type="checkbox" className="drawer-toggle" />
@@ -80,12 +141,94 @@ const FileList: FC<IProps> = ({ updateShow }) => {
               </label>
               <input
                 type="file"
-                accept="application/json"
+                accept="application/json,.excalidraw"
                 id="file-upload"
                 className="hidden"
-                onChange={(e) => handleUploadFile(e.target.files?.[0])}
+                onChange={(e) => {
+                  handleUploadFile(e.target.files?.[0])
+                  e.target.value = ''
+                }}
               />
             </div>
+            <div className="flex justify-end items-center px-4 pb-2">
+              <select
+                className="select select-bordered select-xs font-fredokaOne"
+                value={pdfPageSize}
+                onChange={(e) => updatePdfPageSize(e.target.value)}
+              >
+                {Object.values(PdfPageSize).map((size) => (
+                  <option key={size} value={size}>
+                    {t(`pdf.${size}`)}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="btn btn-xs btn-primary ml-2"
+                disabled={exportingPDF}
+                onClick={() => handleSavePDF(false)}
+              >
+                {t('pdf.current')}
+              </button>
+              <button
+                className="btn btn-xs btn-primary ml-2"
+                disabled={exportingPDF}
+                onClick={() => handleSavePDF(true)}
+              >
+                {t('pdf.all')}
+              </button>
+            </div>
+            <div className="flex justify-end items-center px-4 pb-2">
+              <button
+                className="btn btn-xs btn-primary ml-2"
+                onClick={saveExcalidraw}
+              >
+                {t('excalidraw.export')}
+              </button>
+            </div>
+            <div className="flex justify-end items-center px-4 pb-2">
+              <select
+                className="select select-bordered select-xs font-fredokaOne"
+                value={importMode}
+                onChange={(e) => updateImportMode(e.target.value)}
+              >
+                {Object.values(FileImportMode).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {t(`workspace.${mode}`)}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="btn btn-xs btn-primary ml-2"
+                onClick={exportWorkspace}
+              >
+                {t('workspace.backup')}
+              </button>
+              <label
+                htmlFor="workspace-upload"
+                className="btn btn-xs btn-primary ml-2"
+              >
+                {t('workspace.restore')}
+              </label>
+              <input
+                type="file"
+                accept="application/json"
+                id="workspace-upload"
+                className="hidden"
+                onChange={(e) => {
+                  handleUploadWorkspace(e.target.files?.[0])
+                  e.target.value = ''
+                }}
+              />
+            </div>
+            {uploadError && (
+              <ValidationErrors
+                validation={uploadError.validation}
+                skipInvalidObjects={() =>
+                  handleUploadFile(uploadError.file, true)
+                }
+                close={() => updateUploadError(null)}
+              />
+            )}
             <ul className="menu text-base-content my-2 mx-4 py-3 px-2 rounded-xl bg-white max-h-[70vh] xs:max-h-[40vh]  overflow-y-auto noScrollbar flex-nowrap max-w-full">
               {files.map((item) => (
                 <li
@@ -108,10 +251,14 @@ const FileList: FC<IProps> = ({ updateShow }) => {
                 </li>
               ))}
             </ul>
+            <SnapshotList />
           </div>
         </div>
       </div>
       {showUploadFail && <Toast message="toast.uploadFileFail" />}
+      {showVersionWarning && (
+        <Toast message="toast.newerVersionFile" type="warning" />
+      )}
     </div>
   )
 }
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import useFileStore from '@/store/files'
+import useBoardStore from '@/store/board'
+import { ActionMode } from '@/constants'
+import { loadStaticCanvas } from '@/utils/common/loadCanvas'
+import {
+  ISnapshot,
+  deleteSnapshot,
+  forkSnapshot,
+  getSnapshotData,
+  getSnapshots,
+  restoreSnapshot,
+  saveSnapshot
+} from '@/utils/snapshot'
+
+const intervalOptions = [0, 1, 5, 10, 30] // minutes, 0: off
+
+const SnapshotList = () => {
+  const { t } = useTranslation()
+  const { files, currentId } = useFileStore()
+  const { autoSnapshotInterval, updateAutoSnapshotInterval, updateMode } =
+    useBoardStore()
+  const [snapshots, updateSnapshots] = useState<ISnapshot[]>([])
+  const [name, updateName] = useState('')
+  const [preview, updatePreview] = useState<{
+    snapshot: ISnapshot
+    image: string
+  } | null>(null) // read-only snapshot preview
+
+  const refresh = () => {
+    getSnapshots(currentId).then((list) => {
+      updateSnapshots(list.reverse())
+    })
+  }
+
+  useEffect(() => {
+    refresh()
+    updatePreview(null)
+  }, [currentId])
+
+  const handleSave = () => {
+    saveSnapshot(name || new Date().toLocaleString()).then(() => {
+      updateName('')
+      refresh()
+    })
+  }
+
+  const handlePreview = async (snapshot: ISnapshot) => {
+    const file = files.find((item) => item.id === currentId)
+    const boardData = await getSnapshotData(currentId, snapshot.id)
+    if (!file || !boardData) {
+      return
+    }
+    const canvas = await loadStaticCanvas({ ...file, boardData })
+    updatePreview({ snapshot, image: canvas.toDataURL() })
+    canvas.dispose()
+  }
+
+  const handleRestore = (snapshot: ISnapshot) => {
+    restoreSnapshot(snapshot.id).then(() => {
+      updatePreview(null)
+    })
+  }
+
+  const handleFork = (snapshot: ISnapshot) => {
+    forkSnapshot(snapshot.id).then((res) => {
+      if (res) {
+        updatePreview(null)
+        updateMode(ActionMode.DRAW)
+      }
+    })
+  }
+
+  const handleDelete = (snapshot: ISnapshot) => {
+    deleteSnapshot(currentId, snapshot.id).then(refresh)
+  }
+
+  return (
+    <div className="mx-4 mt-2 p-2 rounded-xl bg-white">
+      <div className="flex items-center">
+        <div className="font-bold font-fredokaOne text-sm flex-1">
+          {t('snapshot.title')}
+        </div>
+        <div className="font-fredokaOne text-xs mr-1">{t('snapshot.auto')}</div>
+        <select
+          className="select select-bordered select-xs font-fredokaOne"
+          value={autoSnapshotInterval}
+          onChange={(e) => updateAutoSnapshotInterval(Number(e.target.value))}
+        >
+          {intervalOptions.map((item) => (
+            <option key={item} value={item}>
+              {item
+                ? t('snapshot.minutes', { count: item })
+                : t('snapshot.off')}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center mt-2">
+        <input
+          value={name}
+          placeholder={t('snapshot.namePlaceholder') ?? ''}
+          className="input input-bordered input-xs flex-1 min-w-0"
+          onChange={(e) => updateName(e.target.value)}
+        />
+        <button className="btn btn-xs btn-primary ml-2" onClick={handleSave}>
+          {t('snapshot.save')}
+        </button>
+      </div>
+      <ul className="mt-2 max-h-[25vh] overflow-y-auto noScrollbar">
+        {snapshots.map((snapshot) => (
+          <li key={snapshot.id} className="flex items-center py-1">
+            <img
+              src={snapshot.thumbnail}
+              className="w-16 h-10 object-cover rounded border cursor-pointer"
+              onClick={() => handlePreview(snapshot)}
+            />
+            <div className="flex-1 min-w-0 mx-2">
+              <div className="text-xs font-bold truncate">{snapshot.name}</div>
+              <div className="text-xs text-gray-500">
+                {new Date(snapshot.createdAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => handlePreview(snapshot)}
+            >
+              {t('snapshot.preview')}
+            </button>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => handleDelete(snapshot)}
+            >
+              {t('snapshot.delete')}
+            </button>
+          </li>
+        ))}
+        {!snapshots.length && (
+          <li className="text-xs text-gray-500 py-1">{t('snapshot.empty')}</li>
+        )}
+      </ul>
+      {preview && (
+        <div className="modal modal-open">
+          <div className="modal-box max-w-3xl flex flex-col items-center">
+            <h3 className="text-lg font-bold text-center">
+              {preview.snapshot.name}
+            </h3>
+            <img
+              src={preview.image}
+              className="mt-4 max-h-[60vh] border rounded-lg"
+            />
+            <div className="flex justify-center mt-6">
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={() => handleRestore(preview.snapshot)}
+              >
+                {t('snapshot.restore')}
+              </button>
+              <button
+                className="btn btn-primary btn-sm ml-2"
+                onClick={() => handleFork(preview.snapshot)}
+              >
+                {t('snapshot.fork')}
+              </button>
+              <button
+                className="btn btn-ghost btn-sm ml-2"
+                onClick={() => updatePreview(null)}
+              >
+                {t('snapshot.close')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SnapshotList
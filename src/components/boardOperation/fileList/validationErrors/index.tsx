@@ -0,0 +1,56 @@
+import { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import { IValidationResult } from '@/utils/common/validate'
+
+interface IProps {
+  validation: IValidationResult
+  skipInvalidObjects: () => void // import again without the invalid objects
+  close: () => void
+}
+
+const MAX_SHOW_ERRORS = 20
+
+const ValidationErrors: FC<IProps> = ({
+  validation,
+  skipInvalidObjects,
+  close
+}) => {
+  const { t } = useTranslation()
+  const errors = [...validation.errors, ...validation.objectErrors]
+
+  return (
+    <div className="mx-4 mt-2 p-3 rounded-xl bg-white text-sm">
+      <div className="font-bold text-error">{t('validation.title')}</div>
+      <ul className="mt-1 max-h-40 overflow-y-auto noScrollbar">
+        {errors.slice(0, MAX_SHOW_ERRORS).map((error, index) => (
+          <li key={index} className="break-all">
+            <span className="font-mono text-xs">{error.path}</span>
+            {`: ${t(`validation.${error.code}`, { ...error.params })}`}
+          </li>
+        ))}
+      </ul>
+      {errors.length > MAX_SHOW_ERRORS && (
+        <div className="text-xs mt-1">
+          {t('validation.more', { count: errors.length - MAX_SHOW_ERRORS })}
+        </div>
+      )}
+      <div className="flex justify-end mt-2">
+        {!validation.errors.length && (
+          <button
+            className="btn btn-xs btn-primary"
+            onClick={skipInvalidObjects}
+          >
+            {t('validation.skipInvalidObjects', {
+              count: validation.invalidObjects.length
+            })}
+          </button>
+        )}
+        <button className="btn btn-xs btn-ghost ml-2" onClick={close}>
+          {t('validation.close')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ValidationErrors
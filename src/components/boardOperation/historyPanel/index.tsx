@@ -0,0 +1,120 @@
+import { FC, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { paintBoard } from '@/utils/paintBoard'
+import {
+  IHistoryLabel,
+  IHistoryNode,
+  addHistoryHookFn,
+  removeHistoryHookFn
+} from '@/utils/history'
+
+import CloseIcon from '@/components/icons/close.svg?react'
+
+interface IProps {
+  updateShow: (show: boolean) => void
+}
+
+const HistoryPanel: FC<IProps> = ({ updateShow }) => {
+  const { t } = useTranslation()
+  const [branch, updateBranch] = useState<IHistoryNode[]>([]) // nodes of the current branch
+  const [index, updateIndex] = useState(0) // number of steps applied
+
+  useEffect(() => {
+    const refresh = () => {
+      updateBranch(paintBoard.history?.getBranch() ?? [])
+      updateIndex(paintBoard.history?.index ?? 0)
+    }
+    refresh()
+    addHistoryHookFn(refresh)
+    return () => {
+      removeHistoryHookFn(refresh)
+    }
+  }, [])
+
+  const getLabel = ({ key, count, style }: IHistoryLabel) => {
+    return t(key, {
+      count,
+      style: style ? t(`style.${style}`) : ''
+    })
+  }
+
+  // sibling branches of a node, to switch between them
+  const getSiblings = (node: IHistoryNode) => {
+    return paintBoard.history?.nodes[node.parentId]?.childIds ?? []
+  }
+
+  const switchBranch = (node: IHistoryNode, offset: number) => {
+    const siblings = getSiblings(node)
+    const sibling = siblings[siblings.indexOf(node.id) + offset]
+    if (sibling) {
+      paintBoard.history?.switchBranch(sibling)
+    }
+  }
+
+  return (
+    <div className="fixed bottom-20 right-5 z-[1] w-64 p-2 rounded-xl bg-white shadow-lg xs:bottom-5 xs:right-20">
+      <div className="flex items-center">
+        <div className="font-bold font-fredokaOne text-sm flex-1">
+          {t('history.title')}
+        </div>
+        <CloseIcon
+          className="w-5 h-5 cursor-pointer"
+          onClick={() => updateShow(false)}
+        />
+      </div>
+      <ul className="mt-2 max-h-[50vh] overflow-y-auto noScrollbar">
+        {[null, ...branch].map((node, stepIndex) => {
+          const siblings = node ? getSiblings(node) : []
+          return (
+            <li
+              key={node?.id ?? 'initial'}
+              className={`flex items-center px-2 py-1 rounded-lg cursor-pointer text-xs hover:bg-slate-200 ${
+                stepIndex === index ? 'bg-[#eef1ff] font-bold' : ''
+              } ${stepIndex > index ? 'text-gray-400' : ''}`}
+              onClick={() => paintBoard.history?.goTo(stepIndex)}
+            >
+              <div className="flex-1 truncate">
+                {node?.step ? getLabel(node.step.label) : t('history.initial')}
+              </div>
+              {node && siblings.length > 1 && (
+                <div
+                  className="tooltip tooltip-left flex items-center ml-2 text-gray-500"
+                  data-tip={t('history.branch')}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <button
+                    className="btn btn-ghost btn-xs px-1"
+                    disabled={siblings.indexOf(node.id) === 0}
+                    onClick={() => switchBranch(node, -1)}
+                  >
+                    ‹
+                  </button>
+                  {`${siblings.indexOf(node.id) + 1}/${siblings.length}`}
+                  <button
+                    className="btn btn-ghost btn-xs px-1"
+                    disabled={siblings.indexOf(node.id) === siblings.length - 1}
+                    onClick={() => switchBranch(node, 1)}
+                  >
+                    ›
+                  </button>
+                </div>
+              )}
+              {node?.step && (
+                <div className="ml-2 text-gray-400">
+                  {new Date(node.step.time).toLocaleTimeString()}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      {!branch.length && (
+        <div className="text-xs text-gray-500 px-2 py-1">
+          {t('history.empty')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPanel
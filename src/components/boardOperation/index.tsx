@@ -3,11 +3,15 @@ import useBoardStore from '@/store/board'
 import { useTranslation } from 'react-i18next'
 import { ActionMode } from '@/constants'
 import { paintBoard } from '@/utils/paintBoard'
-import { ImageElement } from '@/utils/element/image'
+import { addImageFile } from '@/utils/element/image'
 
 import UndoIcon from '@/components/icons/boardOperation/undo.svg?react'
 import RedoIcon from '@/components/icons/boardOperation/redo.svg?react'
 import SaveIcon from '@/components/icons/boardOperation/save.svg?react'
+import SaveSvgIcon from '@/components/icons/boardOperation/saveSvg.svg?react'
+import TimelapseIcon from '@/components/icons/boardOperation/timelapse.svg?react'
+import HistoryIcon from '@/components/icons/boardOperation/history.svg?react'
+import CollaborationIcon from '@/components/icons/boardOperation/collaboration.svg?react'
 import CleanIcon from '@/components/icons/boardOperation/clean.svg?react'
 import UploadIcon from '@/components/icons/boardOperation/upload.svg?react'
 import CopyIcon from '@/components/icons/boardOperation/copy.svg?react'
@@ -17,11 +21,13 @@ import FileListIcon from '@/components/icons/boardOperation/fileList.svg?react'
 import CloseIcon from '@/components/icons/close.svg?react'
 import MenuIcon from '@/components/icons/menu.svg?react'
 import FileList from './fileList'
+import HistoryPanel from './historyPanel'
 
 const BoardOperation = () => {
   const { t } = useTranslation()
   const { mode } = useBoardStore()
   const [showFile, updateShowFile] = useState(false) // show file list draw
+  const [showHistory, updateShowHistory] = useState(false) // show history panel
   const [showOperation, setShowOperation] = useState(true) // mobile: show all operation
 
   // copy activity object
@@ -56,23 +62,13 @@ const BoardOperation = () => {
       return
     }
 
-    const reader = new FileReader()
-    reader.onload = (fEvent) => {
-      const data = fEvent.target?.result
-      if (data) {
-        if (data && typeof data === 'string') {
-          const image = new ImageElement()
-          image.addImage(data)
-        }
-      }
-      e.target.value = ''
-    }
-    reader.readAsDataURL(file)
+    addImageFile(file)
+    e.target.value = ''
   }
 
-  // save as image
-  const saveImage = () => {
-    paintBoard.saveImage()
+  // save as svg
+  const saveSVG = () => {
+    paintBoard.saveSVG()
   }
 
   return (
@@ -94,6 +90,13 @@ const BoardOperation = () => {
             >
               <RedoIcon />
             </div>
+            <div
+              onClick={() => updateShowHistory((v) => !v)}
+              className="min-xs:tooltip cursor-pointer py-1.5 px-2 hover:bg-slate-200"
+              data-tip={t('operate.history')}
+            >
+              <HistoryIcon />
+            </div>
             {[ActionMode.SELECT, ActionMode.Board].includes(mode) && (
               <>
                 <div
@@ -129,6 +132,7 @@ const BoardOperation = () => {
               <input
                 type="file"
                 id="image-upload"
+                accept="image/*,.svg"
                 className="hidden"
                 onChange={uploadImage}
               />
@@ -140,13 +144,34 @@ const BoardOperation = () => {
             >
               <CleanIcon />
             </label>
-            <div
-              onClick={saveImage}
+            <label
+              htmlFor="export-modal"
               className="min-xs:tooltip cursor-pointer py-1.5 px-2 hover:bg-slate-200"
               data-tip={t('operate.save')}
             >
               <SaveIcon />
+            </label>
+            <div
+              onClick={saveSVG}
+              className="min-xs:tooltip cursor-pointer py-1.5 px-2 hover:bg-slate-200"
+              data-tip={t('operate.saveSVG')}
+            >
+              <SaveSvgIcon />
             </div>
+            <label
+              htmlFor="timelapse-modal"
+              className="min-xs:tooltip cursor-pointer py-1.5 px-2 hover:bg-slate-200"
+              data-tip={t('operate.timelapse')}
+            >
+              <TimelapseIcon />
+            </label>
+            <label
+              htmlFor="collaboration-modal"
+              className="min-xs:tooltip cursor-pointer py-1.5 px-2 hover:bg-slate-200"
+              data-tip={t('operate.collaboration')}
+            >
+              <CollaborationIcon />
+            </label>
             <label
               htmlFor="my-drawer-4"
               className="min-xs:tooltip cursor-pointer py-1.5 pl-2 pr-3 rounded-r-full hover:bg-slate-200 xs:pr-2 xs:rounded-r-none xs:rounded-b-full"
@@ -164,6 +189,7 @@ const BoardOperation = () => {
         </label>
       </div>
       {showFile && <FileList updateShow={updateShowFile} />}
+      {showHistory && <HistoryPanel updateShow={updateShowHistory} />}
     </>
   )
 }
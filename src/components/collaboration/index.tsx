@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import useBoardStore, { USER_COLORS } from '@/store/board'
+import useFileStore from '@/store/files'
+import {
+  CollaborationStatus,
+  collaboration,
+  getShareLink,
+  joinRoom
+} from '@/utils/collaboration'
+
+import Toast from '@/components/toast'
+
+const Collaboration = () => {
+  const { t } = useTranslation()
+  const {
+    collaborationServer,
+    userName,
+    userColor,
+    updateCollaborationServer,
+    updateUserName,
+    updateUserColor
+  } = useBoardStore()
+  const { currentId } = useFileStore()
+  const [status, updateStatus] = useState(collaboration.status)
+  const [peerCount, updatePeerCount] = useState(0)
+  const [showCopied, updateShowCopied] = useState(false) // share link copied toast
+  const [invite, updateInvite] = useState<{
+    server: string
+    room: string
+  } | null>(null) // share link to another server than the configured one
+
+  useEffect(() => {
+    const refresh = () => {
+      updateStatus(collaboration.status)
+      updatePeerCount(collaboration.peers.length)
+    }
+    collaboration.addHookFn(refresh)
+
+    // join the room of a share link
+    const params = new URLSearchParams(window.location.search)
+    const room = params.get('room')
+    if (room) {
+      // the board would be sent to the server of the link, an unknown one is confirmed first
+      const server = params.get('server') || collaborationServer
+      if (server === collaborationServer) {
+        joinRoom(server, room)
+      } else {
+        updateInvite({ server, room })
+      }
+      params.delete('room')
+      params.delete('server')
+      const search = params.toString()
+      window.history.replaceState(
+        null,
+        '',
+        `${window.location.pathname}${search ? `?${search}` : ''}`
+      )
+    }
+
+    return () => {
+      collaboration.removeHookFn(refresh)
+      collaboration.disconnect()
+    }
+  }, [])
+
+  const copyShareLink = () => {
+    navigator.clipboard
+      ?.writeText(
+        getShareLink(collaboration.server || collaborationServer, currentId)
+      )
+      .then(() => {
+        updateShowCopied(true)
+        setTimeout(() => {
+          updateShowCopied(false)
+        }, 1500)
+      })
+  }
+
+  const isOffline = status === CollaborationStatus.OFFLINE
+
+  return (
+    <>
+      <input
+        type="checkbox"
+        id="collaboration-modal"
+        className="modal-toggle"
+      />
+      <label htmlFor="collaboration-modal" className="modal cursor-pointer">
+        <label
+          className="modal-box relative flex flex-col justify-center items-center"
+          htmlFor=""
+        >
+          <h3 className="text-lg font-bold text-center">
+            {t('collaboration.title')}
+          </h3>
+          <div className="w-72 mt-5">
+            <div className="font-bold font-fredokaOne text-sm">
+              {t('collaboration.server')}
+            </div>
+            <input
+              value={isOffline ? collaborationServer : collaboration.server}
+              disabled={!isOffline}
+              className="input input-bordered input-sm w-full mt-1"
+              onChange={(e) => updateCollaborationServer(e.target.value)}
+            />
+            <div className="font-bold font-fredokaOne text-sm mt-3">
+              {t('collaboration.name')}
+            </div>
+            <input
+              value={userName}
+              placeholder={t('presence.guest') ?? ''}
+              className="input input-bordered input-sm w-full mt-1"
+              onChange={(e) => updateUserName(e.target.value)}
+            />
+            <div className="font-bold font-fredokaOne text-sm mt-3">
+              {t('collaboration.color')}
+            </div>
+            <div className="flex mt-1">
+              {USER_COLORS.map((color) => (
+                <button
+                  key={color}
+                  className={`w-6 h-6 mr-1.5 rounded-full ${
+                    color === userColor
+                      ? 'ring-2 ring-offset-1 ring-primary'
+                      : ''
+                  }`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => updateUserColor(color)}
+                />
+              ))}
+            </div>
+            <div className="text-sm mt-3">
+              {t(`collaboration.status.${status}`)}
+              {status === CollaborationStatus.ONLINE &&
+                ` · ${t('collaboration.peers', { count: peerCount })}`}
+            </div>
+            {!isOffline && (
+              <button
+                className="btn btn-sm btn-outline w-full mt-3"
+                onClick={copyShareLink}
+              >
+                {t('collaboration.copyLink')}
+              </button>
+            )}
+          </div>
+          <div className="w-72 flex justify-between mt-8">
+            {isOffline ? (
+              <button
+                className="btn btn-active btn-primary btn-md w-[48%]"
+                disabled={!collaborationServer}
+                onClick={() => joinRoom(collaborationServer, currentId)}
+              >
+                {t('collaboration.start')}
+              </button>
+            ) : (
+              <button
+                className="btn btn-active btn-primary btn-md w-[48%]"
+                onClick={() => collaboration.disconnect()}
+              >
+                {t('collaboration.leave')}
+              </button>
+            )}
+            <label
+              htmlFor="collaboration-modal"
+              className="btn btn-active btn-ghost btn-md w-[48%]"
+            >
+              {t('collaboration.close')}
+            </label>
+          </div>
+        </label>
+      </label>
+      {showCopied && <Toast message="toast.linkCopied" />}
+      {invite && (
+        <div className="modal modal-open">
+          <div className="modal-box flex flex-col justify-center items-center">
+            <h3 className="text-lg font-bold text-center">
+              {t('collaboration.invite.title')}
+            </h3>
+            <div className="text-sm text-center mt-4 break-all">
+              {t('collaboration.invite.description', {
+                server: invite.server
+              })}
+            </div>
+            <div className="w-72 flex justify-between mt-8">
+              <button
+                className="btn btn-active btn-primary btn-md w-[48%]"
+                onClick={() => {
+                  joinRoom(invite.server, invite.room)
+                  updateInvite(null)
+                }}
+              >
+                {t('collaboration.invite.join')}
+              </button>
+              <button
+                className="btn btn-active btn-ghost btn-md w-[48%]"
+                onClick={() => updateInvite(null)}
+              >
+                {t('collaboration.invite.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
+
+export default Collaboration
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ActionMode } from '@/constants'
+import useBoardStore from '@/store/board'
+import useFileStore from '@/store/files'
+import { paintBoard } from '@/utils/paintBoard'
+import { worldToClientPoint } from '@/utils/common/bounds'
+import {
+  COMMENT_PIN_COLOR,
+  ICommentThread,
+  commentBoard,
+  getThreadPosition
+} from '@/utils/comments'
+
+/**
+ * Comment pins over the canvas, with the open thread or the new comment next to its pin
+ */
+const Comments = () => {
+  const { t } = useTranslation()
+  const { mode } = useBoardStore()
+  const { files, currentId } = useFileStore()
+  const [, refresh] = useState(0)
+  const [text, updateText] = useState('') // new comment or reply
+
+  useEffect(() => {
+    const update = () => refresh((count) => count + 1)
+    commentBoard.addHookFn(update)
+    window.addEventListener('resize', update)
+    return () => {
+      commentBoard.removeHookFn(update)
+      window.removeEventListener('resize', update)
+    }
+  }, [])
+
+  useEffect(() => {
+    updateText('')
+  }, [commentBoard.activeId, commentBoard.draft])
+
+  // threads belong to the file
+  useEffect(() => {
+    commentBoard.updateActive('')
+  }, [currentId])
+
+  const canvas = paintBoard.canvas
+  const { draft, activeId, showResolved } = commentBoard
+  const threads = files.find((file) => file.id === currentId)?.comments ?? []
+  const isCommentMode = mode === ActionMode.COMMENT
+  const pins = threads
+    .map((thread, index) => ({ thread, index }))
+    .filter(({ thread }) => !thread.resolved || (isCommentMode && showResolved))
+  if (!canvas || (!pins.length && !draft)) {
+    return null
+  }
+
+  const activeThread = pins.find(({ thread }) => thread.id === activeId)?.thread
+  const getPinPosition = (thread: Parameters<typeof getThreadPosition>[1]) => {
+    const position = getThreadPosition(canvas, thread)
+    return worldToClientPoint(canvas, position.x, position.y)
+  }
+
+  const submit = () => {
+    if (draft) {
+      commentBoard.addThread(text)
+    } else if (activeThread) {
+      commentBoard.addReply(activeThread.id, text)
+    }
+    updateText('')
+  }
+
+  const renderReplies = (thread: ICommentThread) => (
+    <ul className="max-h-60 overflow-y-auto noScrollbar">
+      {thread.replies.map((reply) => (
+        <li key={reply.id} className="py-1">
+          <div className="flex items-center text-xs">
+            <span
+              className="w-2 h-2 rounded-full mr-1"
+              style={{ backgroundColor: reply.color }}
+            />
+            <span className="font-bold">
+              {reply.author || t('presence.guest')}
+            </span>
+            <span className="text-gray-500 ml-2">
+              {new Date(reply.createdAt).toLocaleString()}
+            </span>
+          </div>
+          <div className="text-sm whitespace-pre-wrap break-words">
+            {reply.text}
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+
+  const popover = draft ?? activeThread
+  const popoverPosition = popover && getPinPosition(popover)
+
+  return (
+    <>
+      {pins.map(({ thread, index }) => (
+        <button
+          key={thread.id}
+          className={`fixed w-6 h-6 -translate-x-2/4 -translate-y-2/4 rounded-full border-2 border-white text-xs font-bold text-white shadow ${
+            thread.resolved ? 'opacity-50' : ''
+          } ${thread.id === activeId ? 'ring-2 ring-primary' : ''}`}
+          style={{
+            ...getPinPosition(thread),
+            backgroundColor: COMMENT_PIN_COLOR
+          }}
+          onClick={() =>
+            commentBoard.updateActive(thread.id === activeId ? '' : thread.id)
+          }
+        >
+          {index + 1}
+        </button>
+      ))}
+      {draft && (
+        <div
+          className="fixed w-6 h-6 -translate-x-2/4 -translate-y-2/4 rounded-full border-2 border-white shadow"
+          style={{
+            ...getPinPosition(draft),
+            backgroundColor: COMMENT_PIN_COLOR
+          }}
+        />
+      )}
+      {popover && popoverPosition && (
+        <div
+          className="fixed z-[2] w-64 ml-5 p-2 rounded-xl bg-white shadow-lg"
+          style={popoverPosition}
+        >
+          {activeThread && !draft && renderReplies(activeThread)}
+          <textarea
+            autoFocus
+            value={text}
+            placeholder={
+              t(draft ? 'comments.placeholder' : 'comments.replyPlaceholder') ??
+              ''
+            }
+            className="textarea textarea-bordered textarea-xs w-full mt-1"
+            onChange={(e) => updateText(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation()
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                submit()
+              }
+            }}
+          />
+          <div className="flex items-center mt-1">
+            {activeThread && !draft && (
+              <>
+                <button
+                  className="btn btn-xs btn-ghost"
+                  onClick={() =>
+                    commentBoard.updateResolved(
+                      activeThread.id,
+                      !activeThread.resolved
+                    )
+                  }
+                >
+                  {t(
+                    activeThread.resolved
+                      ? 'comments.reopen'
+                      : 'comments.resolve'
+                  )}
+                </button>
+                <button
+                  className="btn btn-xs btn-ghost"
+                  onClick={() => commentBoard.deleteThread(activeThread.id)}
+                >
+                  {t('comments.delete')}
+                </button>
+              </>
+            )}
+            <div className="flex-1" />
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() =>
+                draft
+                  ? commentBoard.cancelDraft()
+                  : commentBoard.updateActive('')
+              }
+            >
+              {t(draft ? 'comments.cancel' : 'comments.close')}
+            </button>
+            <button
+              className="btn btn-xs btn-primary ml-1"
+              disabled={!text.trim()}
+              onClick={submit}
+            >
+              {t(draft ? 'comments.add' : 'comments.reply')}
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
+
+export default Comments
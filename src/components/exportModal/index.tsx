@@ -0,0 +1,176 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { paintBoard } from '@/utils/paintBoard'
+import { IBounds } from '@/utils/common/bounds'
+import { ExportArea, ImageFormat, SCREEN_DPI } from '@/utils/export/image'
+
+import RegionSelectMask from './regionSelectMask'
+import Toast from '@/components/toast'
+
+const scaleOptions = ['1', '2', '4', 'dpi']
+
+const ExportModal = () => {
+  const { t } = useTranslation()
+  const [area, updateArea] = useState(ExportArea.Board)
+  const [scale, updateScale] = useState(scaleOptions[0])
+  const [dpi, updateDpi] = useState(300)
+  const [format, updateFormat] = useState(ImageFormat.PNG)
+  const [withBackground, updateWithBackground] = useState(true)
+  const [withComments, updateWithComments] = useState(false) // draw comment pins
+  const [selectingRegion, updateSelectingRegion] = useState(false) // dragging the export rect
+  const [showExportFail, updateShowExportFail] = useState(false) // empty area toast
+
+  // export image with the current options
+  const handleExport = (region?: IBounds) => {
+    const multiplier =
+      scale === 'dpi' ? Math.max(dpi, 1) / SCREEN_DPI : Number(scale)
+    const res = paintBoard.saveImage({
+      area,
+      region,
+      multiplier,
+      format,
+      withBackground,
+      withComments
+    })
+    if (!res) {
+      updateShowExportFail(true)
+      setTimeout(() => {
+        updateShowExportFail(false)
+      }, 1500)
+    }
+  }
+
+  const clickExport = () => {
+    if (area === ExportArea.Region) {
+      updateSelectingRegion(true)
+    } else {
+      handleExport()
+    }
+  }
+
+  const selectRegion = (region?: IBounds) => {
+    updateSelectingRegion(false)
+    if (region) {
+      handleExport(region)
+    }
+  }
+
+  return (
+    <>
+      <input type="checkbox" id="export-modal" className="modal-toggle" />
+      <label htmlFor="export-modal" className="modal cursor-pointer">
+        <label
+          className="modal-box relative flex flex-col justify-center items-center"
+          htmlFor=""
+        >
+          <h3 className="text-lg font-bold text-center">
+            {t('exportModal.title')}
+          </h3>
+          <div className="w-72 mt-5">
+            <div className="font-bold font-fredokaOne text-sm">
+              {t('exportModal.area')}
+            </div>
+            <div className="btn-group mt-1 flex">
+              {Object.values(ExportArea).map((item) => (
+                <button
+                  key={item}
+                  className={`btn btn-xs flex-1 ${
+                    area === item ? 'btn-active' : ''
+                  }`}
+                  onClick={() => updateArea(item)}
+                >
+                  {t(`exportModal.areaType.${item}`)}
+                </button>
+              ))}
+            </div>
+            <div className="font-bold font-fredokaOne text-sm mt-3">
+              {t('exportModal.scale')}
+            </div>
+            <div className="mt-1 flex items-center">
+              <div className="btn-group flex flex-1">
+                {scaleOptions.map((item) => (
+                  <button
+                    key={item}
+                    className={`btn btn-xs flex-1 ${
+                      scale === item ? 'btn-active' : ''
+                    }`}
+                    onClick={() => updateScale(item)}
+                  >
+                    {item === 'dpi' ? 'DPI' : `${item}x`}
+                  </button>
+                ))}
+              </div>
+              {scale === 'dpi' && (
+                <input
+                  type="number"
+                  min="1"
+                  className="input input-bordered input-xs w-20 ml-2"
+                  value={dpi}
+                  onChange={(e) => updateDpi(Number(e.target.value))}
+                />
+              )}
+            </div>
+            <div className="font-bold font-fredokaOne text-sm mt-3">
+              {t('exportModal.format')}
+            </div>
+            <div className="btn-group mt-1 flex">
+              {Object.values(ImageFormat).map((item) => (
+                <button
+                  key={item}
+                  className={`btn btn-xs flex-1 ${
+                    format === item ? 'btn-active' : ''
+                  }`}
+                  onClick={() => updateFormat(item)}
+                >
+                  {item.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 flex items-center">
+              <input
+                type="checkbox"
+                className="toggle toggle-success toggle-sm"
+                checked={withBackground || format === ImageFormat.JPEG}
+                disabled={format === ImageFormat.JPEG}
+                onChange={() => updateWithBackground((v) => !v)}
+              />
+              <div className="font-bold font-fredokaOne text-sm ml-2">
+                {t('exportModal.background')}
+              </div>
+            </div>
+            <div className="mt-3 flex items-center">
+              <input
+                type="checkbox"
+                className="toggle toggle-success toggle-sm"
+                checked={withComments}
+                onChange={() => updateWithComments((v) => !v)}
+              />
+              <div className="font-bold font-fredokaOne text-sm ml-2">
+                {t('exportModal.comments')}
+              </div>
+            </div>
+          </div>
+          <div className="w-64 flex justify-between mt-8">
+            <label
+              htmlFor="export-modal"
+              className="btn btn-active btn-primary btn-md w-2/5"
+              onClick={clickExport}
+            >
+              {t('exportModal.confirm')}
+            </label>
+            <label
+              htmlFor="export-modal"
+              className="btn btn-active btn-ghost btn-md w-2/5"
+            >
+              {t('exportModal.cancel')}
+            </label>
+          </div>
+        </label>
+      </label>
+      {selectingRegion && <RegionSelectMask onSelect={selectRegion} />}
+      {showExportFail && <Toast message="toast.exportImageFail" />}
+    </>
+  )
+}
+
+export default ExportModal
@@ -0,0 +1,86 @@
+import { FC, PointerEvent, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { paintBoard } from '@/utils/paintBoard'
+import { IBounds, clientToWorldPoint } from '@/utils/common/bounds'
+
+interface IProps {
+  onSelect: (region?: IBounds) => void // undefined when canceled
+}
+
+interface IClientPoint {
+  x: number
+  y: number
+}
+
+const RegionSelectMask: FC<IProps> = ({ onSelect }) => {
+  const { t } = useTranslation()
+  const [start, updateStart] = useState<IClientPoint | null>(null)
+  const [end, updateEnd] = useState<IClientPoint | null>(null)
+
+  // press Escape to cancel
+  useEffect(() => {
+    const keydownFn = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onSelect()
+      }
+    }
+    window.addEventListener('keydown', keydownFn)
+    return () => {
+      window.removeEventListener('keydown', keydownFn)
+    }
+  }, [onSelect])
+
+  const pointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    updateStart({ x: e.clientX, y: e.clientY })
+    updateEnd({ x: e.clientX, y: e.clientY })
+  }
+
+  const pointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (start) {
+      updateEnd({ x: e.clientX, y: e.clientY })
+    }
+  }
+
+  const pointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    const canvas = paintBoard.canvas
+    if (!start || !canvas) {
+      onSelect()
+      return
+    }
+    const p1 = clientToWorldPoint(canvas, start.x, start.y)
+    const p2 = clientToWorldPoint(canvas, e.clientX, e.clientY)
+    onSelect({
+      left: Math.min(p1.x, p2.x),
+      top: Math.min(p1.y, p2.y),
+      width: Math.abs(p1.x - p2.x),
+      height: Math.abs(p1.y - p2.y)
+    })
+  }
+
+  return (
+    <div
+      className="fixed top-0 left-0 right-0 bottom-0 z-10 cursor-crosshair select-none"
+      onPointerDown={pointerDown}
+      onPointerMove={pointerMove}
+      onPointerUp={pointerUp}
+    >
+      <div className="fixed top-5 left-2/4 -translate-x-2/4 px-3 py-1 rounded-full bg-[#eef1ff] text-sm font-fredokaOne">
+        {t('exportModal.regionTip')}
+      </div>
+      {start && end && (
+        <div
+          className="fixed border border-dashed border-[#65CC8A] bg-[rgba(101,204,138,0.3)]"
+          style={{
+            left: Math.min(start.x, end.x),
+            top: Math.min(start.y, end.y),
+            width: Math.abs(start.x - end.x),
+            height: Math.abs(start.y - end.y)
+          }}
+        ></div>
+      )}
+    </div>
+  )
+}
+
+export default RegionSelectMask
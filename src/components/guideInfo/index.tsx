@@ -6,6 +6,7 @@ import InfoIcon from '@/components/icons/info.svg?react'
 import ZhIcon from '@/components/icons/zh.svg?react'
 import EnIcon from '@/components/icons/en.svg?react'
 import ZoomInfo from '../zoomInfo'
+import Minimap from '../minimap'
 import Mask from '@/components/mask'
 import GuideInfoSwiper from './guideInfoSwiper'
 
@@ -27,6 +28,7 @@ const GuideInfo: React.FC = () => {
           onClick={() => setShowModal(true)}
         />
         <ZoomInfo />
+        <Minimap />
       </div>
       <Mask
         show={showModal}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react'
+import useFileStore from '@/store/files'
+import { GuideOrientation } from '@/constants/grid'
+import { paintBoard } from '@/utils/paintBoard'
+import { worldToClientPoint } from '@/utils/common/bounds'
+import { GUIDE_COLOR, IGuideDraft, guides } from '@/utils/guides'
+
+/**
+ * Guide lines of the current file over the canvas, drag them to move and back onto the ruler to delete
+ */
+const Guides = () => {
+  const { files, currentId } = useFileStore()
+  const [, refresh] = useState(0)
+
+  useEffect(() => {
+    const update = () => refresh((count) => count + 1)
+    guides.addHookFn(update)
+    window.addEventListener('resize', update)
+    return () => {
+      guides.removeHookFn(update)
+      window.removeEventListener('resize', update)
+    }
+  }, [])
+
+  const canvas = paintBoard.canvas
+  const { draft } = guides
+  const fileGuides = files.find((file) => file.id === currentId)?.guides ?? []
+  if (!canvas || (!fileGuides.length && !draft)) {
+    return null
+  }
+
+  const renderGuide = (
+    key: string,
+    guide: IGuideDraft,
+    isDraggable: boolean
+  ) => {
+    const isHorizontal = guide.orientation === GuideOrientation.Horizontal
+    const point = worldToClientPoint(
+      canvas,
+      isHorizontal ? 0 : guide.position,
+      isHorizontal ? guide.position : 0
+    )
+    return (
+      <div
+        key={key}
+        className={`fixed flex justify-center items-center ${
+          isHorizontal
+            ? 'left-0 w-screen h-[7px] -translate-y-[3px] cursor-row-resize'
+            : 'top-0 h-screen w-[7px] -translate-x-[3px] cursor-col-resize'
+        } ${isDraggable ? '' : 'pointer-events-none'}`}
+        style={isHorizontal ? { top: point.top } : { left: point.left }}
+        onPointerDown={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          guides.drag(e.nativeEvent, guide.orientation, guide.id)
+        }}
+      >
+        <div
+          className={isHorizontal ? 'w-full h-px' : 'h-full w-px'}
+          style={{ backgroundColor: GUIDE_COLOR }}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {fileGuides
+        .filter((guide) => guide.id !== draft?.id)
+        .map((guide) => renderGuide(guide.id, guide, !guide.locked))}
+      {draft && renderGuide('draft', draft, false)}
+    </>
+  )
+}
+
+export default Guides
@@ -0,0 +1,152 @@
+import { PointerEvent, WheelEvent, useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { paintBoard } from '@/utils/paintBoard'
+import { isMobile } from '@/utils/common'
+import {
+  IBounds,
+  getViewCenter,
+  getViewportBounds,
+  setViewCenter
+} from '@/utils/common/bounds'
+import { MAX_ZOOM, MIN_ZOOM } from '@/utils/event/zoomEvent'
+import {
+  IMinimapLayout,
+  MINIMAP_HEIGHT,
+  MINIMAP_WIDTH,
+  getMinimapLayout,
+  minimap,
+  minimapToWorldPoint,
+  renderMinimap,
+  worldToMinimapRect
+} from '@/utils/minimap'
+
+import MinimapIcon from '@/components/icons/minimap.svg?react'
+
+/**
+ * Thumbnail of the whole board with the current view, click or drag to pan and scroll to zoom
+ */
+const Minimap = () => {
+  const { t } = useTranslation()
+  const [show, updateShow] = useState(!isMobile())
+  const [viewRect, updateViewRect] = useState<IBounds | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const layoutRef = useRef<IMinimapLayout | null>(null)
+  const isDragging = useRef(false)
+
+  useEffect(() => {
+    if (!show) {
+      return
+    }
+    const draw = () => {
+      const canvas = paintBoard.canvas
+      const target = canvasRef.current
+      if (!canvas || !target) {
+        return
+      }
+      // the region holds still while dragging, or it would slide under the pointer
+      const layout =
+        isDragging.current && layoutRef.current
+          ? layoutRef.current
+          : getMinimapLayout(canvas)
+      layoutRef.current = layout
+      renderMinimap(canvas, target, layout)
+      updateViewRect(worldToMinimapRect(layout, getViewportBounds(canvas)))
+    }
+    draw()
+    minimap.addHookFn(draw)
+    return () => {
+      minimap.removeHookFn(draw)
+    }
+  }, [show])
+
+  const panTo = (e: PointerEvent<HTMLDivElement>) => {
+    const canvas = paintBoard.canvas
+    const layout = layoutRef.current
+    const target = canvasRef.current
+    if (!canvas || !layout || !target) {
+      return
+    }
+    const rect = target.getBoundingClientRect()
+    setViewCenter(
+      canvas,
+      minimapToWorldPoint(layout, e.clientX - rect.left, e.clientY - rect.top)
+    )
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    isDragging.current = true
+    e.currentTarget.setPointerCapture(e.pointerId)
+    panTo(e)
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (isDragging.current) {
+      panTo(e)
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (isDragging.current) {
+      isDragging.current = false
+      paintBoard.saveView()
+      minimap.refresh()
+    }
+  }
+
+  const handleWheel = (e: WheelEvent<HTMLDivElement>) => {
+    const canvas = paintBoard.canvas
+    if (!canvas) {
+      return
+    }
+    // same direction as the wheel over the board
+    const zoom = Math.max(
+      MIN_ZOOM,
+      Math.min(MAX_ZOOM, canvas.getZoom() * (e.deltaY > 0 ? 1.1 : 1 / 1.1))
+    )
+    setViewCenter(canvas, getViewCenter(canvas), zoom)
+    paintBoard.evnet?.zoomEvent.updateZoomPercentage(true)
+  }
+
+  return (
+    <>
+      <div
+        className="min-xs:tooltip ml-2 flex"
+        data-tip={t(show ? 'minimap.hide' : 'minimap.show')}
+      >
+        <MinimapIcon
+          className={`bg-white rounded-full cursor-pointer ${
+            show ? '' : 'opacity-50'
+          }`}
+          onClick={() => updateShow(!show)}
+        />
+      </div>
+      {show && (
+        <div
+          className="fixed bottom-20 left-5 rounded-xl overflow-hidden border-4 border-[#eef1ff] shadow-md cursor-pointer touch-none"
+          style={{ width: MINIMAP_WIDTH + 8, height: MINIMAP_HEIGHT + 8 }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+        >
+          <canvas
+            ref={canvasRef}
+            style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT }}
+          />
+          {viewRect && (
+            <div
+              className="absolute border-2 border-primary pointer-events-none"
+              style={{
+                ...viewRect,
+                backgroundColor: 'rgba(101, 204, 138, 0.15)'
+              }}
+            />
+          )}
+        </div>
+      )}
+    </>
+  )
+}
+
+export default Minimap
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ActionMode } from '@/constants'
+import { paintBoard } from '@/utils/paintBoard'
+import { worldToClientPoint } from '@/utils/common/bounds'
+import { IPresence, presence } from '@/utils/presence'
+
+const toolKeys: Record<string, string> = {
+  [ActionMode.ERASE]: 'tool.eraser',
+  [ActionMode.SELECT]: 'tool.select',
+  [ActionMode.Board]: 'tool.board',
+  [ActionMode.COMMENT]: 'tool.comment'
+}
+
+/**
+ * Pointers, selections and avatars of the other participants of a shared board
+ */
+const Presence = () => {
+  const { t } = useTranslation()
+  const [, refresh] = useState(0)
+
+  useEffect(() => {
+    const update = () => refresh((count) => count + 1)
+    presence.addHookFn(update)
+    window.addEventListener('resize', update)
+    return () => {
+      presence.removeHookFn(update)
+      window.removeEventListener('resize', update)
+    }
+  }, [])
+
+  const canvas = paintBoard.canvas
+  const users = Object.entries(presence.users)
+  if (!canvas || !users.length) {
+    return null
+  }
+
+  const toScreen = (x: number, y: number) => worldToClientPoint(canvas, x, y)
+
+  const getName = (user: IPresence) => user.name || t('presence.guest')
+  const getTool = (user: IPresence) =>
+    t(
+      user.mode === ActionMode.DRAW
+        ? `drawType.${user.drawType}`
+        : toolKeys[user.mode] ?? 'tool.select'
+    )
+
+  const getSelectionRects = (user: IPresence) => {
+    return canvas
+      .getObjects()
+      .filter((obj) => obj.id && user.selection.includes(obj.id))
+      .map((obj) => {
+        const bound = obj.getBoundingRect(true, true)
+        const start = toScreen(bound.left, bound.top)
+        const end = toScreen(bound.left + bound.width, bound.top + bound.height)
+        return {
+          id: obj.id,
+          ...start,
+          width: end.left - start.left,
+          height: end.top - start.top
+        }
+      })
+  }
+
+  return (
+    <>
+      {users.map(([clientId, user]) => (
+        <div key={clientId} className="pointer-events-none">
+          {getSelectionRects(user).map((item) => (
+            <div
+              key={item.id}
+              className="fixed border-2 rounded-sm"
+              style={{
+                left: item.left,
+                top: item.top,
+                width: item.width,
+                height: item.height,
+                borderColor: user.color
+              }}
+            />
+          ))}
+          {user.pointer && (
+            <div
+              className="fixed flex items-start"
+              style={toScreen(user.pointer.x, user.pointer.y)}
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16">
+                <path
+                  d="M1 1l5 14 2-6 6-2z"
+                  fill={user.color}
+                  stroke="#fff"
+                  strokeWidth="1"
+                />
+              </svg>
+              <div
+                className="mt-3 px-2 py-0.5 rounded-full text-xs text-white whitespace-nowrap"
+                style={{ backgroundColor: user.color }}
+              >
+                {getName(user)} · {getTool(user)}
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="fixed top-3 left-2/4 -translate-x-2/4 flex items-center px-2 py-1 rounded-full bg-[#eef1ff]">
+        {presence.followingId && presence.users[presence.followingId] && (
+          <div className="text-xs font-fredokaOne mx-1">
+            {t('presence.following', {
+              name: getName(presence.users[presence.followingId])
+            })}
+          </div>
+        )}
+        {users.map(([clientId, user]) => {
+          const isFollowed = clientId === presence.followingId
+          return (
+            <div
+              key={clientId}
+              className="min-xs:tooltip min-xs:tooltip-bottom"
+              data-tip={t(
+                isFollowed ? 'presence.unfollow' : 'presence.follow',
+                {
+                  name: getName(user)
+                }
+              )}
+            >
+              <button
+                className={`w-7 h-7 mx-0.5 rounded-full text-xs font-bold text-white ${
+                  isFollowed ? 'ring-2 ring-offset-1 ring-primary' : ''
+                }`}
+                style={{ backgroundColor: user.color }}
+                onClick={() => presence.follow(isFollowed ? '' : clientId)}
+              >
+                {getName(user).slice(0, 1).toUpperCase()}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </>
+  )
+}
+
+export default Presence
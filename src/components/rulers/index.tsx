@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react'
+import useBoardStore from '@/store/board'
+import { paintBoard } from '@/utils/paintBoard'
+import { RULER_SIZE, grid, renderRuler } from '@/utils/grid'
+import { guides } from '@/utils/guides'
+import { GuideOrientation } from '@/constants/grid'
+
+/**
+ * Rulers along the top and left edges of the board in the chosen unit, drag out of them to add a guide
+ */
+const Rulers = () => {
+  const { showRulers, rulerUnit } = useBoardStore()
+  const topRef = useRef<HTMLCanvasElement>(null)
+  const leftRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!showRulers) {
+      return
+    }
+    const draw = () => {
+      const canvas = paintBoard.canvas
+      if (canvas && topRef.current && leftRef.current) {
+        renderRuler(canvas, topRef.current, false)
+        renderRuler(canvas, leftRef.current, true)
+      }
+    }
+    draw()
+    grid.addHookFn(draw)
+    return () => {
+      grid.removeHookFn(draw)
+    }
+  }, [showRulers, rulerUnit])
+
+  if (!showRulers) {
+    return null
+  }
+
+  return (
+    <>
+      <canvas
+        ref={topRef}
+        className="fixed top-0 left-0 cursor-row-resize touch-none"
+        onPointerDown={(e) =>
+          guides.drag(e.nativeEvent, GuideOrientation.Horizontal)
+        }
+      />
+      <canvas
+        ref={leftRef}
+        className="fixed top-0 left-0 cursor-col-resize touch-none"
+        onPointerDown={(e) =>
+          guides.drag(e.nativeEvent, GuideOrientation.Vertical)
+        }
+      />
+      <div
+        className="fixed top-0 left-0 pointer-events-none flex justify-center items-center bg-[#eef1ff] border-r border-b border-[#567189] text-[9px] text-[#567189]"
+        style={{ width: RULER_SIZE, height: RULER_SIZE }}
+      >
+        {rulerUnit}
+      </div>
+    </>
+  )
+}
+
+export default Rulers
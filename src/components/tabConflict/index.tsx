@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { tabSync } from '@/utils/tabSync'
+
+const TabConflict = () => {
+  const { t } = useTranslation()
+  const [conflict, updateConflict] = useState(tabSync.conflict)
+
+  useEffect(() => {
+    const refresh = () => {
+      updateConflict(tabSync.conflict)
+    }
+    tabSync.addHookFn(refresh)
+    return () => {
+      tabSync.removeHookFn(refresh)
+    }
+  }, [])
+
+  if (!conflict) {
+    return null
+  }
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box flex flex-col justify-center items-center">
+        <h3 className="text-lg font-bold text-center">
+          {t('tabConflict.title')}
+        </h3>
+        <div className="text-sm text-center mt-4">
+          {t('tabConflict.description')}
+        </div>
+        <div className="w-72 flex justify-between mt-8">
+          <button
+            className="btn btn-active btn-primary btn-md w-[48%]"
+            onClick={() => tabSync.keepLocal()}
+          >
+            {t('tabConflict.keepLocal')}
+          </button>
+          <button
+            className="btn btn-active btn-ghost btn-md w-[48%]"
+            onClick={() => tabSync.keepOther()}
+          >
+            {t('tabConflict.keepOther')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TabConflict
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { timelapsePlayer } from '@/utils/timelapse'
+import {
+  TimelapseFormat,
+  exportTimelapse,
+  isWebmSupported
+} from '@/utils/export/timelapse'
+
+import Toast from '@/components/toast'
+
+const speedOptions = [0.5, 1, 2, 4, 8]
+
+const Timelapse = () => {
+  const { t } = useTranslation()
+  const [speed, updateSpeed] = useState(1)
+  const [format, updateFormat] = useState(TimelapseFormat.GIF)
+  const [exportProgress, updateExportProgress] = useState(-1) // -1: not exporting
+  const [playState, updatePlayState] = useState({
+    isPlaying: false,
+    isPaused: false,
+    index: 0,
+    total: 0
+  })
+  const [showEmpty, updateShowEmpty] = useState(false) // nothing recorded toast
+
+  useEffect(() => {
+    return () => {
+      timelapsePlayer.stop()
+    }
+  }, [])
+
+  const handleEmpty = () => {
+    updateShowEmpty(true)
+    setTimeout(() => {
+      updateShowEmpty(false)
+    }, 1500)
+  }
+
+  // sync player state to the replay bar
+  const syncPlayState = () => {
+    updatePlayState({
+      isPlaying: timelapsePlayer.isPlaying,
+      isPaused: timelapsePlayer.isPaused,
+      index: timelapsePlayer.index,
+      total: timelapsePlayer.frames.length
+    })
+  }
+
+  const play = () => {
+    timelapsePlayer.play(speed, syncPlayState).then((res) => {
+      if (!res) {
+        handleEmpty()
+      }
+    })
+  }
+
+  const changeSpeed = (value: number) => {
+    updateSpeed(value)
+    timelapsePlayer.setSpeed(value)
+  }
+
+  const handleExport = () => {
+    updateExportProgress(0)
+    exportTimelapse(format, speed, updateExportProgress)
+      .then((res) => {
+        if (!res) {
+          handleEmpty()
+        }
+      })
+      .finally(() => {
+        updateExportProgress(-1)
+      })
+  }
+
+  const exporting = exportProgress > -1
+
+  return (
+    <>
+      <input type="checkbox" id="timelapse-modal" className="modal-toggle" />
+      <label htmlFor="timelapse-modal" className="modal cursor-pointer">
+        <label
+          className="modal-box relative flex flex-col justify-center items-center"
+          htmlFor=""
+        >
+          <h3 className="text-lg font-bold text-center">
+            {t('timelapse.title')}
+          </h3>
+          <div className="w-72 mt-5">
+            <div className="font-bold font-fredokaOne text-sm">
+              {t('timelapse.speed')}
+            </div>
+            <div className="btn-group mt-1 flex">
+              {speedOptions.map((item) => (
+                <button
+                  key={item}
+                  className={`btn btn-xs flex-1 ${
+                    speed === item ? 'btn-active' : ''
+                  }`}
+                  onClick={() => changeSpeed(item)}
+                >
+                  {`${item}x`}
+                </button>
+              ))}
+            </div>
+            <div className="font-bold font-fredokaOne text-sm mt-3">
+              {t('timelapse.format')}
+            </div>
+            <div className="btn-group mt-1 flex">
+              {Object.values(TimelapseFormat).map((item) => (
+                <button
+                  key={item}
+                  className={`btn btn-xs flex-1 ${
+                    format === item ? 'btn-active' : ''
+                  }`}
+                  disabled={item === TimelapseFormat.WEBM && !isWebmSupported()}
+                  onClick={() => updateFormat(item)}
+                >
+                  {item.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            {exporting && (
+              <progress
+                className="progress progress-success w-full mt-3"
+                value={exportProgress}
+                max="1"
+              ></progress>
+            )}
+          </div>
+          <div className="w-72 flex justify-between mt-8">
+            <label
+              htmlFor="timelapse-modal"
+              className="btn btn-active btn-primary btn-md w-[30%]"
+              onClick={play}
+            >
+              {t('timelapse.play')}
+            </label>
+            <button
+              className="btn btn-active btn-primary btn-md w-[30%]"
+              disabled={exporting}
+              onClick={handleExport}
+            >
+              {t('timelapse.export')}
+            </button>
+            <label
+              htmlFor="timelapse-modal"
+              className="btn btn-active btn-ghost btn-md w-[30%]"
+            >
+              {t('timelapse.cancel')}
+            </label>
+          </div>
+        </label>
+      </label>
+      {playState.isPlaying && (
+        <div className="fixed inset-0 z-[30]">
+          <div className="absolute bottom-5 left-2/4 -translate-x-2/4 flex items-center bg-[#eef1ff] rounded-full px-3 py-1.5">
+            <button
+              className="btn btn-xs btn-primary"
+              onClick={() =>
+                playState.isPaused
+                  ? timelapsePlayer.resume()
+                  : timelapsePlayer.pause()
+              }
+            >
+              {t(playState.isPaused ? 'timelapse.resume' : 'timelapse.pause')}
+            </button>
+            <select
+              className="select select-bordered select-xs font-fredokaOne ml-2"
+              value={speed}
+              onChange={(e) => changeSpeed(Number(e.target.value))}
+            >
+              {speedOptions.map((item) => (
+                <option key={item} value={item}>
+                  {`${item}x`}
+                </option>
+              ))}
+            </select>
+            <div className="font-fredokaOne text-sm mx-3">
+              {`${playState.index + 1} / ${playState.total}`}
+            </div>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => timelapsePlayer.stop()}
+            >
+              {t('timelapse.stop')}
+            </button>
+          </div>
+        </div>
+      )}
+      {showEmpty && <Toast message="toast.timelapseEmpty" type="warning" />}
+    </>
+  )
+}
+
+export default Timelapse
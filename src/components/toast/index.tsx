@@ -3,14 +3,23 @@ import { useTranslation } from 'react-i18next'
 
 interface IProps {
   message: string
+  type?: 'success' | 'warning' | 'error'
 }
 
-const Toast: FC<IProps> = ({ message }) => {
+const Toast: FC<IProps> = ({ message, type = 'success' }) => {
   const { t } = useTranslation()
 
   return (
     <div className="toast toast-top toast-center">
-      <div className="alert alert-success">
+      <div
+        className={`alert ${
+          {
+            success: 'alert-success',
+            warning: 'alert-warning',
+            error: 'alert-error'
+          }[type]
+        }`}
+      >
         <div>
           <span className="whitespace-nowrap">{t(message)}</span>
         </div>
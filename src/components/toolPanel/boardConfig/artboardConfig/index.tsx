@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import useFileStore from '@/store/files'
+import { useTranslation } from 'react-i18next'
+import { RulerUnit } from '@/constants/grid'
+import { ARTBOARD_PRESETS, CUSTOM_ARTBOARD } from '@/constants/artboard'
+import { artboards, formatArtboardSize } from '@/utils/artboards'
+
+const ArtboardConfig = () => {
+  const { files, currentId } = useFileStore()
+  const { t } = useTranslation()
+  const [preset, updatePreset] = useState(ARTBOARD_PRESETS[0].name)
+  const [customWidth, updateCustomWidth] = useState(800)
+  const [customHeight, updateCustomHeight] = useState(600)
+  const [customUnit, updateCustomUnit] = useState(RulerUnit.Px)
+  const fileArtboards =
+    files.find((file) => file.id === currentId)?.artboards ?? []
+
+  const addArtboard = () => {
+    const item = ARTBOARD_PRESETS.find(({ name }) => name === preset)
+    if (item) {
+      artboards.addArtboard(item.name, item.width, item.height, item.unit)
+    } else if (customWidth > 0 && customHeight > 0) {
+      artboards.addArtboard(
+        t('artboard.custom'),
+        customWidth,
+        customHeight,
+        customUnit
+      )
+    }
+  }
+
+  return (
+    <div className="form-control mt-3">
+      <div className="font-bold font-fredokaOne text-sm">
+        {t('title.artboards')}
+      </div>
+      <div className="mt-1 flex items-center">
+        <select
+          className="select select-bordered select-xs flex-1"
+          value={preset}
+          onChange={(e) => updatePreset(e.target.value)}
+        >
+          {ARTBOARD_PRESETS.map((item) => (
+            <option key={item.name} value={item.name}>
+              {`${item.name} (${item.width} × ${item.height} ${item.unit})`}
+            </option>
+          ))}
+          <option value={CUSTOM_ARTBOARD}>{t('artboard.custom')}</option>
+        </select>
+        <button className="btn btn-xs btn-primary ml-2" onClick={addArtboard}>
+          {t('artboard.add')}
+        </button>
+      </div>
+      {preset === CUSTOM_ARTBOARD && (
+        <div className="mt-1 flex items-center">
+          <input
+            type="number"
+            min="1"
+            className="input input-bordered input-xs w-16"
+            value={customWidth}
+            onChange={(e) => updateCustomWidth(Number(e.target.value))}
+          />
+          <span className="mx-1 text-xs">×</span>
+          <input
+            type="number"
+            min="1"
+            className="input input-bordered input-xs w-16"
+            value={customHeight}
+            onChange={(e) => updateCustomHeight(Number(e.target.value))}
+          />
+          <select
+            className="select select-bordered select-xs ml-2"
+            value={customUnit}
+            onChange={(e) => updateCustomUnit(e.target.value)}
+          >
+            {Object.values(RulerUnit).map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="text-xs mt-1">{t('artboard.tip')}</div>
+      <ul className="mt-1 max-h-40 overflow-y-auto noScrollbar">
+        {fileArtboards.map((artboard) => (
+          <li key={artboard.id} className="flex items-center text-sm">
+            <span
+              className="flex-1 cursor-pointer truncate"
+              onClick={() => artboards.zoomToArtboard(artboard.id)}
+            >
+              {`${artboard.name} · ${formatArtboardSize(artboard)}`}
+            </span>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => artboards.rotateArtboard(artboard.id)}
+            >
+              {t('artboard.rotate')}
+            </button>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => artboards.deleteArtboard(artboard.id)}
+            >
+              {t('artboard.delete')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default ArtboardConfig
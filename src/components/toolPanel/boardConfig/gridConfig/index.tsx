@@ -0,0 +1,95 @@
+import useBoardStore from '@/store/board'
+import { useTranslation } from 'react-i18next'
+import { GridType, RulerUnit } from '@/constants/grid'
+
+const GridConfig = () => {
+  const {
+    showRulers,
+    rulerUnit,
+    gridType,
+    gridSize,
+    snapToGrid,
+    updateShowRulers,
+    updateRulerUnit,
+    updateGridType,
+    updateGridSize,
+    updateSnapToGrid
+  } = useBoardStore()
+  const { t } = useTranslation()
+
+  return (
+    <div className="form-control mt-3">
+      <div className="font-bold font-fredokaOne text-sm">
+        {t('title.rulers')}
+      </div>
+      <div className="mt-1 flex items-center w-full">
+        <input
+          type="checkbox"
+          className="toggle toggle-success"
+          checked={showRulers}
+          onChange={() => updateShowRulers(!showRulers)}
+        />
+        <div className="btn-group flex flex-1 ml-3">
+          {Object.values(RulerUnit).map((unit) => (
+            <button
+              key={unit}
+              className={`btn btn-xs flex-1 ${
+                rulerUnit === unit ? 'btn-active' : ''
+              }`}
+              onClick={() => updateRulerUnit(unit)}
+            >
+              {unit}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="font-bold font-fredokaOne text-sm mt-3">
+        {t('title.grid')}
+      </div>
+      <div className="btn-group mt-1 flex">
+        {Object.values(GridType).map((type) => (
+          <button
+            key={type}
+            className={`btn btn-xs flex-1 ${
+              gridType === type ? 'btn-active' : ''
+            }`}
+            onClick={() => updateGridType(type)}
+          >
+            {t(`grid.type.${type}`)}
+          </button>
+        ))}
+      </div>
+      <div className="mt-1 flex items-center w-full">
+        <div className="text-sm font-fredokaOne mr-2 text-primary-focus w-9 shrink-0">
+          {gridSize}
+        </div>
+        <input
+          className="range range-primary range-xs"
+          type="range"
+          min="5"
+          max="100"
+          step="5"
+          value={String(gridSize)}
+          onChange={(e) => {
+            updateGridSize(Number(e.target.value))
+          }}
+        />
+      </div>
+      <div className="mt-2 flex items-center">
+        <input
+          type="checkbox"
+          className="toggle toggle-success toggle-sm"
+          checked={snapToGrid}
+          onChange={() => updateSnapToGrid(!snapToGrid)}
+        />
+        <div className="font-bold font-fredokaOne text-sm ml-2">
+          {t('grid.snap')}
+        </div>
+      </div>
+      <div className="text-xs mt-1">{t('grid.snapTip')}</div>
+    </div>
+  )
+}
+
+export default GridConfig
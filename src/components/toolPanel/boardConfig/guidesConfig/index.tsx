@@ -0,0 +1,69 @@
+import useBoardStore from '@/store/board'
+import useFileStore from '@/store/files'
+import { useTranslation } from 'react-i18next'
+import { GuideOrientation, RULER_UNIT_SIZE, RulerUnit } from '@/constants/grid'
+import { guides } from '@/utils/guides'
+
+const GuidesConfig = () => {
+  const { rulerUnit } = useBoardStore()
+  const { files, currentId } = useFileStore()
+  const { t } = useTranslation()
+  const fileGuides = files.find((file) => file.id === currentId)?.guides ?? []
+
+  const formatPosition = (position: number) =>
+    `${(position / RULER_UNIT_SIZE[rulerUnit]).toFixed(
+      rulerUnit === RulerUnit.Px ? 0 : 1
+    )} ${rulerUnit}`
+
+  return (
+    <div className="form-control mt-3">
+      <div className="flex items-center">
+        <div className="font-bold font-fredokaOne text-sm flex-1">
+          {t('title.guides')}
+        </div>
+        {!!fileGuides.length && (
+          <button
+            className="btn btn-xs btn-ghost"
+            onClick={() => guides.clearGuides()}
+          >
+            {t('guides.clear')}
+          </button>
+        )}
+      </div>
+      <div className="text-xs mt-1">{t('guides.tip')}</div>
+      <ul className="mt-1 max-h-40 overflow-y-auto noScrollbar">
+        {fileGuides.map((guide) => (
+          <li key={guide.id} className="flex items-center text-sm">
+            <span className="flex-1">
+              {t(
+                guide.orientation === GuideOrientation.Horizontal
+                  ? 'guides.horizontal'
+                  : 'guides.vertical'
+              )}
+              {' · '}
+              {formatPosition(guide.position)}
+            </span>
+            <button
+              className={`btn btn-xs ${
+                guide.locked ? 'btn-active' : 'btn-ghost'
+              }`}
+              onClick={() =>
+                guides.updateGuide(guide.id, { locked: !guide.locked })
+              }
+            >
+              {t(guide.locked ? 'guides.unlock' : 'guides.lock')}
+            </button>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={() => guides.deleteGuide(guide.id)}
+            >
+              {t('guides.delete')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default GuidesConfig
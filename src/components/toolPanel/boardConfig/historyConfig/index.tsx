@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import useBoardStore from '@/store/board'
+import { useTranslation } from 'react-i18next'
+
+const HistoryConfig = () => {
+  const { historyDepth, updateHistoryDepth } = useBoardStore()
+  const { t } = useTranslation()
+  // trimming deletes steps, the depth is only applied when the slider is released
+  const [depth, updateDepth] = useState(historyDepth)
+
+  useEffect(() => {
+    updateDepth(historyDepth)
+  }, [historyDepth])
+
+  const commitDepth = () => {
+    if (depth !== historyDepth) {
+      updateHistoryDepth(depth)
+    }
+  }
+
+  return (
+    <div className="form-control mt-3">
+      <div className="font-bold font-fredokaOne text-sm">
+        {t('title.undoHistory')}
+      </div>
+      <div className="mt-1 flex items-center w-full">
+        <div className="text-sm font-fredokaOne mr-2 text-primary-focus w-9 shrink-0">
+          {depth}
+        </div>
+        <input
+          className="range range-primary range-xs"
+          type="range"
+          min="10"
+          max="200"
+          step="10"
+          value={String(depth)}
+          onChange={(e) => {
+            updateDepth(Number(e.target.value))
+          }}
+          onMouseUp={commitDepth}
+          onTouchEnd={commitDepth}
+          onKeyUp={commitDepth}
+          onBlur={commitDepth}
+        />
+      </div>
+      <div className="text-xs mt-1">{t('boardConfig.historyDepthTip')}</div>
+    </div>
+  )
+}
+
+export default HistoryConfig
@@ -1,15 +1,21 @@
+import ArtboardConfig from './artboardConfig'
 import BackgroundConfig from './backgroundConfig'
-import CanvasSizeConfig from './canvasSizeConfig'
 import CacheConfig from './cacheConfig'
 import GuideLineCOnfig from './guideLineConfig'
+import GridConfig from './gridConfig'
+import GuidesConfig from './guidesConfig'
+import HistoryConfig from './historyConfig'
 
 const boardConfig = () => {
   return (
     <>
       <BackgroundConfig />
-      <CanvasSizeConfig />
+      <ArtboardConfig />
       <CacheConfig />
       <GuideLineCOnfig />
+      <GridConfig />
+      <GuidesConfig />
+      <HistoryConfig />
     </>
   )
 }
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import useFileStore from '@/store/files'
+import { commentBoard } from '@/utils/comments'
+
+const CommentConfig = () => {
+  const { t } = useTranslation()
+  const { files, currentId } = useFileStore()
+  const [showResolved, updateShowResolved] = useState(commentBoard.showResolved)
+
+  useEffect(() => {
+    const refresh = () => updateShowResolved(commentBoard.showResolved)
+    commentBoard.addHookFn(refresh)
+    return () => {
+      commentBoard.removeHookFn(refresh)
+    }
+  }, [])
+
+  const threads = (
+    files.find((file) => file.id === currentId)?.comments ?? []
+  ).map((thread, index) => ({ thread, index }))
+  const visibleThreads = threads.filter(
+    ({ thread }) => showResolved || !thread.resolved
+  )
+
+  return (
+    <div className="form-control mt-3 w-64">
+      <div className="font-bold font-fredokaOne text-sm">
+        {t('comments.title')}
+      </div>
+      <div className="text-xs mt-1">{t('comments.tip')}</div>
+      <div className="mt-2 flex items-center">
+        <input
+          type="checkbox"
+          className="toggle toggle-success toggle-sm"
+          checked={showResolved}
+          onChange={() => commentBoard.updateShowResolved(!showResolved)}
+        />
+        <div className="font-bold font-fredokaOne text-sm ml-2">
+          {t('comments.showResolved')}
+        </div>
+      </div>
+      <ul className="mt-2 max-h-[40vh] overflow-y-auto noScrollbar">
+        {visibleThreads.map(({ thread, index }) => (
+          <li
+            key={thread.id}
+            className={`flex items-start p-1 rounded-lg cursor-pointer hover:bg-slate-200 ${
+              thread.resolved ? 'opacity-50' : ''
+            }`}
+            onClick={() => commentBoard.focus(thread.id)}
+          >
+            <div className="w-5 h-5 shrink-0 rounded-full bg-primary text-xs font-bold text-white flex justify-center items-center">
+              {index + 1}
+            </div>
+            <div className="flex-1 min-w-0 ml-2">
+              <div className="text-sm truncate">{thread.replies[0]?.text}</div>
+              <div className="text-xs text-gray-500">
+                {thread.replies[0]?.author || t('presence.guest')}
+                {' · '}
+                {t('comments.replies', { count: thread.replies.length - 1 })}
+                {thread.resolved && ` · ${t('comments.resolved')}`}
+              </div>
+            </div>
+          </li>
+        ))}
+        {!visibleThreads.length && (
+          <li className="text-xs text-gray-500 py-1">{t('comments.empty')}</li>
+        )}
+      </ul>
+    </div>
+  )
+}
+
+export default CommentConfig
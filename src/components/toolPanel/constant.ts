@@ -16,5 +16,9 @@ export const modeSwitch = [
   {
     type: ActionMode.Board,
     text: 'tool.board'
+  },
+  {
+    type: ActionMode.COMMENT,
+    text: 'tool.comment'
   }
 ]
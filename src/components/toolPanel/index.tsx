@@ -8,6 +8,7 @@ import DrawConfig from './drawConfig'
 import EraserConfig from './eraserConfig'
 import SelectConfig from './selectConfig'
 import BoardConfig from './boardConfig'
+import CommentConfig from './commentConfig'
 import CloseIcon from '@/components/icons/close.svg?react'
 import MenuIcon from '@/components/icons/menu.svg?react'
 
@@ -50,6 +51,7 @@ const ToolPanel: FC = () => {
           {mode === ActionMode.ERASE && <EraserConfig />}
           {mode === ActionMode.SELECT && <SelectConfig />}
           {mode === ActionMode.Board && <BoardConfig />}
+          {mode === ActionMode.COMMENT && <CommentConfig />}
         </div>
       )}
     </div>
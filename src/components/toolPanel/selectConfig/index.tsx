@@ -37,7 +37,10 @@ const SelectConfig = () => {
         paintBoard.canvas?.getActiveObject()?._customType as string
       ) && <SelectFontFamilyConfig refreshCount={refreshCount} />}
 
-      {Object.values(SHAPE_ELEMENT_CUSTOM_TYPE).includes(
+      {[
+        ...Object.values(SHAPE_ELEMENT_CUSTOM_TYPE),
+        ELEMENT_CUSTOM_TYPE.SVG
+      ].includes(
         paintBoard.canvas?.getActiveObject()?._customType as string
       ) && <SelectShapeConfig refreshCount={refreshCount} />}
     </div>
@@ -3,7 +3,8 @@ import { FC, useCallback, useMemo } from 'react'
 import useShapeStore from '@/store/shape'
 import { debounce, omit } from 'lodash'
 import { ShapeBorderType, ShapeFillType } from '@/constants/shape'
-import { SHAPE_ELEMENT_CUSTOM_TYPE } from '@/constants'
+import { ELEMENT_CUSTOM_TYPE, SHAPE_ELEMENT_CUSTOM_TYPE } from '@/constants'
+import { getSvgAttr, setSvgAttr } from '@/utils/element/svg'
 
 import BorderTypeConfig from '@/components/toolPanel/drawConfig/shapeConfig/borderTypeConfig'
 import BorderStyleConfig from '@/components/toolPanel/drawConfig/shapeConfig/borderStyleConfig'
@@ -13,6 +14,31 @@ interface IProps {
   refreshCount: number
 }
 
+/**
+ * Imported svg objects keep the colors on their children
+ */
+const isSvgObject = (obj: fabric.Object | null | undefined) =>
+  obj?._customType === ELEMENT_CUSTOM_TYPE.SVG
+
+const setActiveObjectAttr = (attrs: Partial<fabric.IObjectOptions>) => {
+  const activeObject = paintBoard.canvas?.getActiveObject()
+  if (isSvgObject(activeObject)) {
+    setSvgAttr(activeObject as fabric.Object, attrs)
+  } else {
+    activeObject?.set(attrs)
+  }
+}
+
+const getActiveObjectAttr = (
+  attr: 'stroke' | 'fill' | 'strokeWidth' | 'strokeDashArray'
+) => {
+  const activeObject = paintBoard.canvas?.getActiveObject()
+  if (isSvgObject(activeObject)) {
+    return getSvgAttr(activeObject as fabric.Object, attr)
+  }
+  return (activeObject as fabric.Path | undefined)?.[attr]
+}
+
 const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   const { fillColor } = useShapeStore()
 
@@ -32,14 +58,14 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   }
 
   const currentTextFontFamily = useMemo(() => {
-    const strokeDashArray = (
-      paintBoard.canvas?.getActiveObject() as fabric.Path
-    )?.strokeDashArray
+    const strokeDashArray = getActiveObjectAttr('strokeDashArray') as
+      | number[]
+      | undefined
     return getTypeByDashArray(strokeDashArray)
   }, [refreshCount])
 
   const updateBorderType = (type: string) => {
-    const strokeWidth = paintBoard.canvas?.getActiveObject()?.strokeWidth
+    const strokeWidth = getActiveObjectAttr('strokeWidth') as number
     if (!strokeWidth) {
       return
     }
@@ -54,7 +80,7 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
       default:
         break
     }
-    paintBoard.canvas?.getActiveObject()?.set({
+    setActiveObjectAttr({
       strokeDashArray
     })
     paintBoard.render()
@@ -62,12 +88,12 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   }
 
   const currentBorderColor = useMemo(() => {
-    return paintBoard.canvas?.getActiveObject()?.stroke ?? undefined
+    return (getActiveObjectAttr('stroke') as string) ?? undefined
   }, [refreshCount])
 
   const updateBorderColor = useCallback(
     debounce((borderColor: string) => {
-      paintBoard.canvas?.getActiveObject()?.set({
+      setActiveObjectAttr({
         stroke: borderColor
       })
       paintBoard.render()
@@ -77,14 +103,14 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   )
 
   const currentBorderWidth = useMemo(() => {
-    return paintBoard.canvas?.getActiveObject()?.strokeWidth ?? undefined
+    return (getActiveObjectAttr('strokeWidth') as number) ?? undefined
   }, [refreshCount])
 
   const updateBorderWidth = useCallback(
     debounce((borderWidth: number) => {
-      const oldStrokeDashArray = (
-        paintBoard.canvas?.getActiveObject() as fabric.Path
-      )?.strokeDashArray
+      const oldStrokeDashArray = getActiveObjectAttr('strokeDashArray') as
+        | number[]
+        | undefined
       const type = getTypeByDashArray(oldStrokeDashArray)
       let newStrokeDashArray = undefined
       switch (type) {
@@ -97,7 +123,7 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
         default:
           break
       }
-      paintBoard.canvas?.getActiveObject()?.set({
+      setActiveObjectAttr({
         strokeWidth: borderWidth,
         strokeDashArray: newStrokeDashArray
       })
@@ -108,14 +134,13 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   )
 
   const currentFillColor = useMemo(() => {
-    return paintBoard.canvas?.getActiveObject()?.fill as string
+    return getActiveObjectAttr('fill') as string
   }, [refreshCount])
   const updateFillColor = useCallback(
     debounce((fillColor: string) => {
-      const currentFillColor = paintBoard.canvas?.getActiveObject()
-        ?.fill as string
+      const currentFillColor = getActiveObjectAttr('fill') as string
       if (currentFillColor !== 'transparent') {
-        paintBoard.canvas?.getActiveObject()?.set({
+        setActiveObjectAttr({
           fill: fillColor
         })
         paintBoard.render()
@@ -126,7 +151,7 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   )
 
   const currentFillType = useMemo(() => {
-    const fillColor = paintBoard.canvas?.getActiveObject()?.fill as string
+    const fillColor = getActiveObjectAttr('fill') as string
     if (fillColor === 'transparent') {
       return ShapeFillType.Transparent
     }
@@ -135,12 +160,12 @@ const SelectShapeConfig: FC<IProps> = ({ refreshCount }) => {
   const updateFillType = (fillType: string) => {
     switch (fillType) {
       case ShapeFillType.Transparent:
-        paintBoard.canvas?.getActiveObject()?.set({
+        setActiveObjectAttr({
           fill: 'transparent'
         })
         break
       case ShapeFillType.Full:
-        paintBoard.canvas?.getActiveObject()?.set({
+        setActiveObjectAttr({
           fill: fillColor
         })
         break
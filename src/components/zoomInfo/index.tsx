@@ -1,7 +1,10 @@
 import { paintBoard } from '@/utils/paintBoard'
+import { ZOOM_PRESETS } from '@/utils/event/zoomEvent'
 import { CSSProperties, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
 
 const ZoomInfo = () => {
+  const { t } = useTranslation()
   const [zoomValue, setZoomValue] = useState(
     paintBoard.evnet?.zoomEvent.handleZoomPercentage(false)
   )
@@ -11,18 +14,57 @@ const ZoomInfo = () => {
     })
   }, [setZoomValue])
 
+  const zoomEvent = paintBoard.evnet?.zoomEvent
+  const zoom = paintBoard.canvas?.getZoom() ?? 1
+
+  // close the menu after picking an item
+  const pick = (fn?: () => void) => () => {
+    fn?.()
+    ;(document.activeElement as HTMLElement | null)?.blur()
+  }
+
   return (
-    <div
-      className="radial-progress bg-primary text-primary-content border-4 border-primary cursor-pointer ml-2"
-      style={
-        {
-          '--value': zoomValue,
-          '--size': '1.1rem',
-          '--thickness': '0.2rem'
-        } as CSSProperties
-      }
-      onClick={() => paintBoard.evnet?.zoomEvent.initZoom()}
-    ></div>
+    <div className="dropdown dropdown-top ml-2 flex">
+      <label
+        tabIndex={0}
+        className="radial-progress bg-primary text-primary-content border-4 border-primary cursor-pointer"
+        style={
+          {
+            '--value': zoomValue,
+            '--size': '1.1rem',
+            '--thickness': '0.2rem'
+          } as CSSProperties
+        }
+      ></label>
+      <ul
+        tabIndex={0}
+        className="dropdown-content menu menu-compact p-2 mb-3 shadow bg-base-100 rounded-box w-52"
+      >
+        <li className="menu-title">
+          <span>{t('zoom.current', { zoom: Math.round(zoom * 100) })}</span>
+        </li>
+        {ZOOM_PRESETS.map((preset) => (
+          <li key={preset}>
+            <a onClick={pick(() => zoomEvent?.zoomTo(preset))}>
+              {`${preset * 100}%`}
+              {preset === 1 && <kbd className="kbd kbd-xs ml-auto">⇧0</kbd>}
+            </a>
+          </li>
+        ))}
+        <li>
+          <a onClick={pick(() => zoomEvent?.zoomToFit())}>
+            {t('zoom.fit')}
+            <kbd className="kbd kbd-xs ml-auto">⇧1</kbd>
+          </a>
+        </li>
+        <li>
+          <a onClick={pick(() => zoomEvent?.zoomToSelection())}>
+            {t('zoom.selection')}
+            <kbd className="kbd kbd-xs ml-auto">⇧2</kbd>
+          </a>
+        </li>
+      </ul>
+    </div>
   )
 }
 
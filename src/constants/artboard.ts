@@ -0,0 +1,17 @@
+import { RulerUnit } from './grid'
+
+export interface IArtboardPreset {
+  name: string
+  width: number // in unit
+  height: number
+  unit: string // RulerUnit
+}
+
+export const ARTBOARD_PRESETS: IArtboardPreset[] = [
+  { name: 'A4', width: 210, height: 297, unit: RulerUnit.Mm },
+  { name: 'A3', width: 297, height: 420, unit: RulerUnit.Mm },
+  { name: '1920×1080', width: 1920, height: 1080, unit: RulerUnit.Px },
+  { name: 'Instagram', width: 1080, height: 1080, unit: RulerUnit.Px }
+]
+
+export const CUSTOM_ARTBOARD = 'custom'
@@ -1,4 +1,7 @@
 export enum KeyCode {
   SPACE = 'Space',
-  BACKSPACE = 'Backspace'
+  BACKSPACE = 'Backspace',
+  DIGIT_0 = 'Digit0',
+  DIGIT_1 = 'Digit1',
+  DIGIT_2 = 'Digit2'
 }
@@ -0,0 +1,23 @@
+export const GridType = {
+  None: 'none',
+  Lines: 'lines',
+  Dots: 'dots'
+}
+
+export const GuideOrientation = {
+  Horizontal: 'horizontal',
+  Vertical: 'vertical'
+}
+
+export const RulerUnit = {
+  Px: 'px',
+  Mm: 'mm',
+  In: 'in'
+}
+
+// world pixels per ruler unit, at the CSS resolution of 96 pixels per inch
+export const RULER_UNIT_SIZE: Record<string, number> = {
+  [RulerUnit.Px]: 1,
+  [RulerUnit.Mm]: 96 / 25.4,
+  [RulerUnit.In]: 96
+}
@@ -2,11 +2,13 @@ export const ActionMode = {
   DRAW: 'draw',
   ERASE: 'erase',
   SELECT: 'select',
-  Board: 'board'
+  Board: 'board',
+  COMMENT: 'comment'
 }
 
 export const FREESTYLE_ELEMENT_CUSTOM_TYPE = {
   IMAGE: 'image',
+  SVG: 'svg',
   I_TEXT: 'itext',
   RAINBOW: 'rainbow',
   SHAPE: 'shape',
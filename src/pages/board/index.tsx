@@ -8,6 +8,14 @@ import { DrawStyle, DrawType } from '@/constants/draw'
 import ToolPanel from '@/components/toolPanel'
 import GuideInfo from '@/components/guideInfo'
 import CleanModal from '@/components/cleanModal'
+import ExportModal from '@/components/exportModal'
+import Timelapse from '@/components/timelapse'
+import Collaboration from '@/components/collaboration'
+import TabConflict from '@/components/tabConflict'
+import Presence from '@/components/presence'
+import Comments from '@/components/comments'
+import Rulers from '@/components/rulers'
+import Guides from '@/components/guides'
 import BoardOperation from '@/components/boardOperation'
 import DeleteFileModal from '@/components/boardOperation/deleteFileModal'
 import AutoDrawPanel from '@/components/autodrawPanel'
@@ -38,9 +46,17 @@ const Board: React.FC = () => {
       </div>
       {canvasLoaded && (
         <>
+          <Guides />
+          <Rulers />
+          <Comments />
+          <Presence />
           <ToolPanel />
           <GuideInfo />
           <CleanModal />
+          <ExportModal />
+          <Timelapse />
+          <Collaboration />
+          <TabConflict />
           <DeleteFileModal />
           <BoardOperation />
           {mode === ActionMode.DRAW &&
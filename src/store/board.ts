@@ -1,6 +1,7 @@
 import { fabric } from 'fabric'
 import { ActionMode } from '@/constants'
 import { DrawType } from '@/constants/draw'
+import { GridType, RulerUnit } from '@/constants/grid'
 import {
   changeAlpha,
   getAlphaFromRgba,
@@ -20,14 +21,22 @@ interface BoardState {
   mode: string // operating mode
   drawType: string // draw type
   language: string // i18n language 'zh' 'en'
-  canvasWidth: number // canvas width 0.1 ~ 1
-  canvasHeight: number // canvas height 0.1 ~ 1
   backgroundColor: string // canvas background color
   backgroundOpacity: number // canvas background color opacity
   hasBackgroundImage: boolean // canvas background image
   backgroundImageOpacity: number // canvas background Image opacity
   isObjectCaching: boolean // fabric objectCaching
   openGuideLine: boolean // does the guide line show
+  showRulers: boolean // rulers along the top and left edges
+  rulerUnit: string // RulerUnit
+  gridType: string // GridType of the background grid
+  gridSize: number // grid spacing in world pixels
+  snapToGrid: boolean // moving, resizing and drawing shapes snap to the grid
+  autoSnapshotInterval: number // minutes between auto snapshots, 0: off
+  historyDepth: number // undo steps kept per file
+  collaborationServer: string // collaboration relay server url
+  userName: string // display name shown to collaborators
+  userColor: string // cursor and selection color shown to collaborators
 }
 
 interface BoardAction {
@@ -35,8 +44,6 @@ interface BoardAction {
   updateDrawType: (drawType: string) => void
   updateLanguage: (language: string) => void
   initBackground: () => void
-  updateCanvasWidth: (width: number) => void
-  updateCanvasHeight: (height: number) => void
   updateBackgroundColor: (color: string) => void
   updateBackgroundOpacity: (opacity: number) => void
   updateBackgroundImage: (image: string) => void
@@ -44,26 +51,55 @@ interface BoardAction {
   cleanBackgroundImage: () => void
   updateCacheState: () => void
   updateOpenGuideLine: () => void
+  updateShowRulers: (showRulers: boolean) => void
+  updateRulerUnit: (unit: string) => void
+  updateGridType: (gridType: string) => void
+  updateGridSize: (size: number) => void
+  updateSnapToGrid: (snapToGrid: boolean) => void
+  updateAutoSnapshotInterval: (interval: number) => void
+  updateHistoryDepth: (depth: number) => void
+  updateCollaborationServer: (server: string) => void
+  updateUserName: (name: string) => void
+  updateUserColor: (color: string) => void
 }
 
 const initLanguage = ['en', 'en-US', 'en-us'].includes(navigator.language)
   ? 'en'
   : 'zh'
 
+export const USER_COLORS = [
+  '#e5484d',
+  '#f76b15',
+  '#ffc53d',
+  '#46a758',
+  '#12a594',
+  '#0090ff',
+  '#6e56cf',
+  '#d6409f'
+]
+
 const useBoardStore = create<BoardState & BoardAction>()(
   persist(
     (set, get) => ({
       mode: ActionMode.DRAW,
       drawType: DrawType.FreeStyle,
       language: initLanguage,
-      canvasWidth: 1,
-      canvasHeight: 1,
       backgroundColor: 'rgba(255, 255, 255, 1)',
       backgroundOpacity: 1,
       hasBackgroundImage: false,
       backgroundImageOpacity: 1,
       isObjectCaching: true,
       openGuideLine: false,
+      showRulers: false,
+      rulerUnit: RulerUnit.Px,
+      gridType: GridType.None,
+      gridSize: 20,
+      snapToGrid: false,
+      autoSnapshotInterval: 10,
+      historyDepth: 50,
+      collaborationServer: 'ws://localhost:8787',
+      userName: '',
+      userColor: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
       updateMode: (mode) => {
         const oldMode = get().mode
         if (oldMode !== mode) {
@@ -128,24 +164,6 @@ const useBoardStore = create<BoardState & BoardAction>()(
           })
         }
       },
-      updateCanvasWidth: (width) => {
-        const oldWidth = get().canvasWidth
-        if (oldWidth !== width) {
-          set({
-            canvasWidth: width
-          })
-          paintBoard.updateCanvasWidth(width)
-        }
-      },
-      updateCanvasHeight: (height) => {
-        const oldHeight = get().canvasHeight
-        if (oldHeight !== height) {
-          set({
-            canvasHeight: height
-          })
-          paintBoard.updateCanvasHeight(height)
-        }
-      },
       updateBackgroundColor: (color) => {
         const canvas = paintBoard.canvas
         if (canvas && color !== canvas?.backgroundColor) {
@@ -227,6 +245,61 @@ const useBoardStore = create<BoardState & BoardAction>()(
           openGuideLine: newOpenGuideLine
         })
         alignGuideLine.updateOpenState(newOpenGuideLine)
+      },
+      updateShowRulers(showRulers) {
+        set({
+          showRulers
+        })
+      },
+      updateRulerUnit(unit) {
+        set({
+          rulerUnit: unit
+        })
+      },
+      updateGridType(gridType) {
+        set({
+          gridType
+        })
+        paintBoard.canvas?.requestRenderAll()
+      },
+      updateGridSize(size) {
+        set({
+          gridSize: size
+        })
+        paintBoard.canvas?.requestRenderAll()
+      },
+      updateSnapToGrid(snapToGrid) {
+        set({
+          snapToGrid
+        })
+      },
+      updateAutoSnapshotInterval(interval) {
+        set({
+          autoSnapshotInterval: interval
+        })
+      },
+      updateHistoryDepth(depth) {
+        set({
+          historyDepth: depth
+        })
+        paintBoard.history?.trim()
+        paintBoard.history?.save()
+        paintBoard.triggerHook()
+      },
+      updateCollaborationServer(server) {
+        set({
+          collaborationServer: server
+        })
+      },
+      updateUserName(name) {
+        set({
+          userName: name
+        })
+      },
+      updateUserColor(color) {
+        set({
+          userColor: color
+        })
       }
     }),
     {
@@ -3,7 +3,38 @@ import { persist, createJSONStorage, StateStorage } from 'zustand/middleware'
 import { get, set, del } from 'idb-keyval'
 import { v4 as uuidv4 } from 'uuid'
 import { produce } from 'immer'
-import useBoardStore from './board'
+import { exportPDF } from '@/utils/export/pdf'
+import {
+  exportExcalidraw,
+  excalidrawToFile,
+  isExcalidrawScene
+} from '@/utils/export/excalidraw'
+import { isNewerBoardVersion, migrateFile } from '@/utils/common/migration'
+import { readFileAsText } from '@/utils/common'
+import { timelapseRecorder } from '@/utils/timelapse'
+import { removeSnapshots } from '@/utils/snapshot'
+import { removeHistoryRecord } from '@/utils/history'
+import { removeRevision } from '@/utils/tabSync'
+import { ICommentThread } from '@/utils/comments'
+import { IGuide } from '@/utils/guides'
+import { IArtboard } from '@/utils/artboards'
+import { inlineAssets } from '@/utils/common/assets'
+import {
+  delBoardData,
+  delFilesBoardData,
+  getBoardData,
+  getFileMeta,
+  getFileWithData,
+  setBoardData,
+  setFilesBoardData
+} from '@/utils/common/fileStorage'
+import {
+  IValidationResult,
+  removeInvalidElements,
+  removeInvalidObjects,
+  validateExcalidrawScene,
+  validateFile
+} from '@/utils/common/validate'
 
 const storage: StateStorage = {
   getItem: async (name: string): Promise<string | null> => {
@@ -24,15 +55,37 @@ export interface IBoardData {
   backgroundImage: fabric.Image
 }
 
-interface IFile {
+export interface IFile {
   id: string // file id
   title: string // file title
   boardVersion: string // paint board version
   zoom: number // current canvas zoom
-  viewportTransform?: number[] // current canvas transform
-  canvasWidth: number // canvas width
-  canvasHeight: number // canvas Height
-  boardData?: Partial<IBoardData>
+  viewCenter?: { x: number; y: number } // world point at the center of the view
+  viewportTransform?: number[] // before 1.5.0, transform of a window-relative canvas
+  canvasWidth?: number // before 1.5.0, canvas width 0.1 ~ 1 of the window
+  canvasHeight?: number // before 1.5.0, canvas height 0.1 ~ 1 of the window
+  boardData?: Partial<IBoardData> // only loaded for the current file, see fileStorage
+  comments?: ICommentThread[] // comment threads pinned on the board
+  guides?: IGuide[] // guide lines dragged from the rulers
+  artboards?: IArtboard[] // fixed-size pages
+}
+
+export const FileImportMode = {
+  KeepBoth: 'keepBoth', // conflicting files are added with a new id
+  Overwrite: 'overwrite', // conflicting files replace the local ones
+  Skip: 'skip', // conflicting files are ignored
+  Replace: 'replace' // all local files are dropped
+}
+
+export interface IImportFilesResult {
+  added: number
+  overwritten: number
+  skipped: number
+}
+
+export interface IUploadFileResult {
+  success: boolean
+  validation?: IValidationResult // why the file was rejected or which objects were skipped
 }
 
 interface FileState {
@@ -43,19 +96,42 @@ interface FileState {
 interface FileAction {
   updateCurrentFile: (newId: string) => void
   updateTitle: (newTitle: string, id: string) => void
-  updateZoom: (newZoom: number) => void
-  updateTransform: (newTransform: number[]) => void
-  updateCanvasWidth: (width: number) => void
-  updateCanvasHeight: (height: number) => void
+  updateView: (viewCenter: { x: number; y: number }, zoom: number) => void
   updateBoardData: (data: Partial<IBoardData>) => void
+  updateComments: (comments: ICommentThread[]) => void
+  updateGuides: (guides: IGuide[]) => void
+  updateArtboards: (artboards: IArtboard[]) => void
+  loadFile: (id: string) => Promise<IFile | undefined>
   addFile: () => void
+  openSharedFile: (id: string) => void
+  forkFile: (
+    file: IFile,
+    title: string,
+    boardData: Partial<IBoardData>
+  ) => Promise<void>
   deleteFile: () => void
-  saveJSON: () => void
-  uploadFile: (file: File | undefined) => Promise<boolean>
+  saveJSON: () => Promise<void>
+  savePDF: (pageSize: string, isAllFiles: boolean) => Promise<void>
+  saveExcalidraw: () => Promise<void>
+  uploadFile: (
+    file: File | undefined,
+    skipInvalidObjects?: boolean
+  ) => Promise<IUploadFileResult>
+  importFiles: (files: IFile[], mode: string) => Promise<IImportFilesResult>
 }
 
 const initId = uuidv4()
-export const BOARD_VERSION = '1.4.0'
+export const BOARD_VERSION = '1.5.0'
+
+/**
+ * Remove the data other modules keep for a deleted file, board data is removed by the caller
+ */
+const removeFileRecords = (id: string) => {
+  timelapseRecorder.remove(id)
+  removeSnapshots(id)
+  removeHistoryRecord(id)
+  removeRevision(id)
+}
 
 const useFileStore = create<FileState & FileAction>()(
   persist(
@@ -67,9 +143,7 @@ const useFileStore = create<FileState & FileAction>()(
           title: 'paint-board',
           boardVersion: BOARD_VERSION,
           boardData: {},
-          zoom: 1,
-          canvasWidth: 1,
-          canvasHeight: 1
+          zoom: 1
         }
       ],
       updateCurrentFile(newId) {
@@ -98,12 +172,16 @@ const useFileStore = create<FileState & FileAction>()(
         )
         set(
           produce((state) => {
-            state.files[updateIndex].boardVersion = BOARD_VERSION
+            // a file from a newer version keeps its version, see isNewerBoardVersion
+            if (!isNewerBoardVersion(state.files[updateIndex].boardVersion)) {
+              state.files[updateIndex].boardVersion = BOARD_VERSION
+            }
             state.files[updateIndex].boardData = data
           })
         )
+        setBoardData(get().currentId, data)
       },
-      updateZoom(newZoom) {
+      updateComments(comments) {
         const files = get().files
         const updateIndex = files?.findIndex(
           (file) => file.id === get().currentId
@@ -111,12 +189,12 @@ const useFileStore = create<FileState & FileAction>()(
         if (updateIndex > -1) {
           set(
             produce((state) => {
-              state.files[updateIndex].zoom = newZoom
+              state.files[updateIndex].comments = comments
             })
           )
         }
       },
-      updateTransform(newTransform) {
+      updateGuides(guides) {
         const files = get().files
         const updateIndex = files?.findIndex(
           (file) => file.id === get().currentId
@@ -124,12 +202,12 @@ const useFileStore = create<FileState & FileAction>()(
         if (updateIndex > -1) {
           set(
             produce((state) => {
-              state.files[updateIndex].viewportTransform = newTransform
+              state.files[updateIndex].guides = guides
             })
           )
         }
       },
-      updateCanvasWidth(width) {
+      updateArtboards(artboards) {
         const files = get().files
         const updateIndex = files?.findIndex(
           (file) => file.id === get().currentId
@@ -137,12 +215,32 @@ const useFileStore = create<FileState & FileAction>()(
         if (updateIndex > -1) {
           set(
             produce((state) => {
-              state.files[updateIndex].canvasWidth = width
+              state.files[updateIndex].artboards = artboards
             })
           )
         }
       },
-      updateCanvasHeight(height) {
+      async loadFile(id) {
+        const file = get().files.find((item) => item.id === id)
+        if (!file) {
+          return
+        }
+        const boardData = file.boardData ?? (await getBoardData(id))
+        // keep only one board in memory
+        set(
+          produce((state: FileState) => {
+            state.files.forEach((item) => {
+              if (item.id === id) {
+                item.boardData = boardData
+              } else {
+                delete item.boardData
+              }
+            })
+          })
+        )
+        return { ...file, boardData }
+      },
+      updateView(viewCenter, zoom) {
         const files = get().files
         const updateIndex = files?.findIndex(
           (file) => file.id === get().currentId
@@ -150,7 +248,12 @@ const useFileStore = create<FileState & FileAction>()(
         if (updateIndex > -1) {
           set(
             produce((state) => {
-              state.files[updateIndex].canvasHeight = height
+              const file = state.files[updateIndex]
+              file.viewCenter = viewCenter
+              file.zoom = zoom
+              delete file.viewportTransform
+              delete file.canvasWidth
+              delete file.canvasHeight
             })
           )
         }
@@ -164,19 +267,51 @@ const useFileStore = create<FileState & FileAction>()(
               title: 'empty title',
               boardVersion: BOARD_VERSION,
               boardData: {},
-              zoom: 1,
-              canvasWidth: useBoardStore.getState().canvasWidth,
-              canvasHeight: useBoardStore.getState().canvasHeight
+              zoom: 1
             })
           })
         )
       },
+      openSharedFile(id) {
+        if (!get().files.some((file) => file.id === id)) {
+          set(
+            produce((state) => {
+              state.files.unshift({
+                id,
+                title: 'shared board',
+                boardVersion: BOARD_VERSION,
+                boardData: {},
+                zoom: 1
+              })
+            })
+          )
+        }
+        get().updateCurrentFile(id)
+      },
+      async forkFile(file, title, boardData) {
+        const id = uuidv4()
+        await setBoardData(id, boardData)
+        set(
+          produce((state) => {
+            state.files.unshift({
+              ...getFileMeta(file),
+              id,
+              title,
+              boardVersion: BOARD_VERSION,
+              boardData
+            })
+            state.currentId = id
+          })
+        )
+      },
       deleteFile() {
         const files = get().files
         if (files.length > 1) {
           const updateIndex = files?.findIndex(
             (file) => file.id === get().currentId
           )
+          removeFileRecords(get().currentId)
+          delBoardData(get().currentId)
           set(
             produce((state) => {
               state.files.splice(updateIndex, 1)
@@ -185,12 +320,15 @@ const useFileStore = create<FileState & FileAction>()(
           )
         }
       },
-      saveJSON() {
+      async saveJSON() {
         const currentData = get().files?.find(
           (file) => file.id === get().currentId
         )
         if (currentData) {
-          const json = JSON.stringify(currentData)
+          // images leave the asset store with the file
+          const json = JSON.stringify(
+            await inlineAssets(await getFileWithData(currentData))
+          )
           const blob = new Blob([json], { type: 'application/json' })
 
           const link = document.createElement('a')
@@ -201,51 +339,182 @@ const useFileStore = create<FileState & FileAction>()(
           URL.revokeObjectURL(link.href)
         }
       },
-      uploadFile(file) {
-        return new Promise((resolve) => {
-          if (file) {
-            const reader = new FileReader()
-            reader.onload = (fEvent) => {
-              const data = fEvent.target?.result as string
-              let result = false
-              if (data) {
-                const json = JSON.parse(data)
-                if (json?.boardData && json?.title) {
-                  const id = uuidv4()
-                  set(
-                    produce((state) => {
-                      state.files.unshift({
-                        id,
-                        title: json?.title,
-                        boardVersion: json?.boardVersion || BOARD_VERSION,
-                        boardData: json?.boardData,
-                        canvasWidth: json?.canvasWidth || 1,
-                        canvasHeight: json?.canvasHeight || 1
-                      })
-                      state.currentId = state.files[0].id
-                    })
-                  )
-                  result = true
-                }
-              }
-              resolve(result)
-            }
-            reader.onerror = (error) => {
-              console.log('reader fail', error)
-              resolve(false)
+      async savePDF(pageSize, isAllFiles) {
+        const files = isAllFiles
+          ? get().files
+          : get().files.filter((file) => file.id === get().currentId)
+        return exportPDF(
+          await Promise.all(files.map(getFileWithData)),
+          pageSize
+        )
+      },
+      async saveExcalidraw() {
+        const currentData = get().files?.find(
+          (file) => file.id === get().currentId
+        )
+        if (currentData) {
+          await exportExcalidraw(await getFileWithData(currentData))
+        }
+      },
+      async uploadFile(file, skipInvalidObjects = false) {
+        if (!file) {
+          return { success: false }
+        }
+        let json
+        try {
+          json = JSON.parse(await readFileAsText(file))
+        } catch (error) {
+          console.log('upload file parse fail', error)
+          return {
+            success: false,
+            validation: {
+              errors: [{ path: file.name, code: 'invalidJSON' }],
+              objectErrors: [],
+              invalidObjects: []
             }
-            reader.readAsText(file)
-          } else {
-            resolve(false)
           }
-        })
+        }
+
+        if (isExcalidrawScene(json)) {
+          const sceneValidation = validateExcalidrawScene(json)
+          if (
+            sceneValidation.errors.length ||
+            (sceneValidation.objectErrors.length && !skipInvalidObjects)
+          ) {
+            return { success: false, validation: sceneValidation }
+          }
+          json = excalidrawToFile(
+            removeInvalidElements(json, sceneValidation),
+            file.name.replace(/\.[^.]+$/, '')
+          )
+        }
+
+        const validation = validateFile(json)
+        if (
+          validation.errors.length ||
+          (validation.objectErrors.length && !skipInvalidObjects)
+        ) {
+          return { success: false, validation }
+        }
+
+        // files without boardVersion predate versioning, run every migration
+        const uploadedFile = migrateFile(
+          removeInvalidObjects(
+            {
+              id: uuidv4(),
+              title: json.title,
+              boardVersion: json.boardVersion,
+              boardData: json.boardData,
+              zoom: json.zoom || 1,
+              viewCenter: json.viewCenter,
+              viewportTransform: json.viewportTransform,
+              canvasWidth: json.canvasWidth,
+              canvasHeight: json.canvasHeight,
+              comments: json.comments,
+              guides: json.guides,
+              artboards: json.artboards
+            },
+            validation
+          )
+        )
+        await setBoardData(uploadedFile.id, uploadedFile.boardData)
+        set(
+          produce((state) => {
+            state.files.unshift(uploadedFile)
+            state.currentId = state.files[0].id
+          })
+        )
+        return { success: true, validation }
+      },
+      async importFiles(files, mode) {
+        const result: IImportFilesResult = {
+          added: 0,
+          overwritten: 0,
+          skipped: 0
+        }
+        if (!files.length) {
+          return result
+        }
+        const importedFiles: IFile[] = [] // files whose board data is written
+        const droppedIds = get()
+          .files.map((file) => file.id)
+          .filter((id) => !files.some((file) => file.id === id))
+        set(
+          produce((state: FileState) => {
+            if (mode === FileImportMode.Replace) {
+              state.files = files.map(getFileMeta)
+              state.currentId = files[0].id
+              importedFiles.push(...files)
+              result.added = files.length
+              return
+            }
+            files.forEach((file) => {
+              const conflictIndex = state.files.findIndex(
+                (item) => item.id === file.id
+              )
+              if (conflictIndex < 0) {
+                state.files.push(getFileMeta(file))
+                importedFiles.push(file)
+                result.added++
+              } else if (mode === FileImportMode.Overwrite) {
+                state.files[conflictIndex] = getFileMeta(file)
+                importedFiles.push(file)
+                result.overwritten++
+              } else if (mode === FileImportMode.KeepBoth) {
+                const copy = { ...file, id: uuidv4() }
+                state.files.push(getFileMeta(copy))
+                importedFiles.push(copy)
+                result.added++
+              } else {
+                result.skipped++
+              }
+            })
+          })
+        )
+        await setFilesBoardData(importedFiles)
+        if (mode === FileImportMode.Replace) {
+          await delFilesBoardData(droppedIds)
+          droppedIds.forEach(removeFileRecords)
+        }
+        return result
       }
     }),
     {
       name: 'PAINT-BOARD-FILES',
-      storage: createJSONStorage(() => storage)
+      storage: createJSONStorage(() => storage),
+      version: 1,
+      // board data is saved per file by fileStorage
+      partialize: (state) => ({
+        ...state,
+        files: state.files.map(getFileMeta)
+      }),
+      // version 0 kept every board inside PAINT-BOARD-FILES
+      migrate: async (persistedState, version) => {
+        const state = persistedState as FileState & FileAction
+        if (version < 1 && Array.isArray(state?.files)) {
+          await setFilesBoardData(state.files)
+          return { ...state, files: state.files.map(getFileMeta) }
+        }
+        return state
+      }
     }
   )
 )
 
+/**
+ * Resolve once the persisted file index is loaded
+ */
+export const waitForFileHydration = () => {
+  return new Promise<void>((resolve) => {
+    if (useFileStore.persist.hasHydrated()) {
+      resolve()
+      return
+    }
+    const unsubscribe = useFileStore.persist.onFinishHydration(() => {
+      unsubscribe()
+      resolve()
+    })
+  })
+}
+
 export default useFileStore
@@ -0,0 +1,29 @@
+declare module 'gifenc' {
+  type Palette = number[][]
+
+  interface IGIFEncoder {
+    writeFrame: (
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: {
+        palette?: Palette
+        delay?: number
+        repeat?: number
+        transparent?: boolean
+      }
+    ) => void
+    finish: () => void
+    bytes: () => Uint8Array
+  }
+
+  export function GIFEncoder(): IGIFEncoder
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number
+  ): Palette
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette
+  ): Uint8Array
+}
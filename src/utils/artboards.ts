@@ -0,0 +1,183 @@
+import { fabric } from 'fabric'
+import { v4 as uuidv4 } from 'uuid'
+import useFileStore from '@/store/files'
+import { RULER_UNIT_SIZE } from '@/constants/grid'
+import { paintBoard } from './paintBoard'
+import { IBounds, getViewCenter } from './common/bounds'
+
+const BACKDROP_COLOR = '#d4d4d8'
+const SHADOW_COLOR = 'rgba(0, 0, 0, 0.2)'
+const LABEL_COLOR = '#52525b'
+const ARTBOARD_GAP = 100 // world pixels between a new artboard and the last one
+
+/**
+ * Page of a fixed size on the board
+ */
+export interface IArtboard extends IBounds {
+  id: string
+  name: string
+  unit: string // RulerUnit the size is shown in, left/top/width/height are world pixels
+}
+
+/**
+ * Artboards of the current file
+ */
+export const getArtboards = () => {
+  const { files, currentId } = useFileStore.getState()
+  return files.find((file) => file.id === currentId)?.artboards ?? []
+}
+
+/**
+ * size of an artboard in its unit, e.g. 210 × 297 mm
+ */
+export const formatArtboardSize = (artboard: IArtboard) => {
+  const unitSize = RULER_UNIT_SIZE[artboard.unit] ?? 1
+  const format = (value: number) =>
+    String(Math.round((value / unitSize) * 10) / 10)
+  return `${format(artboard.width)} × ${format(artboard.height)} ${
+    artboard.unit
+  }`
+}
+
+/**
+ * Draw the artboards as pages on a backdrop, the board background only fills the pages
+ * @param renderBackground original background renderer
+ */
+const renderArtboards = (
+  canvas: fabric.Canvas,
+  ctx: CanvasRenderingContext2D,
+  renderBackground: () => void
+) => {
+  const artboards = getArtboards()
+  const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  const zoom = vpt[0]
+  const rects = artboards.map((artboard) => ({
+    artboard,
+    left: artboard.left * zoom + vpt[4],
+    top: artboard.top * zoom + vpt[5],
+    width: artboard.width * zoom,
+    height: artboard.height * zoom
+  }))
+
+  ctx.save()
+  ctx.fillStyle = BACKDROP_COLOR
+  ctx.fillRect(0, 0, canvas.getWidth(), canvas.getHeight())
+  ctx.fillStyle = '#ffffff'
+  ctx.shadowColor = SHADOW_COLOR
+  ctx.shadowBlur = 8
+  rects.forEach((rect) => {
+    ctx.fillRect(rect.left, rect.top, rect.width, rect.height)
+  })
+  ctx.restore()
+
+  ctx.save()
+  ctx.beginPath()
+  rects.forEach((rect) => {
+    ctx.rect(rect.left, rect.top, rect.width, rect.height)
+  })
+  ctx.clip()
+  renderBackground()
+  ctx.restore()
+
+  ctx.save()
+  ctx.fillStyle = LABEL_COLOR
+  ctx.font = '12px sans-serif'
+  ctx.textBaseline = 'bottom'
+  rects.forEach(({ artboard, left, top }) => {
+    ctx.fillText(
+      `${artboard.name} · ${formatArtboardSize(artboard)}`,
+      left,
+      top - 4
+    )
+  })
+  ctx.restore()
+}
+
+/**
+ * Artboards
+ * Fixed-size pages stored in the file. The board shows them on a backdrop,
+ * exports render into another context and only get the pages' content.
+ */
+export class Artboards {
+  init(canvas: fabric.Canvas) {
+    const board = canvas as fabric.Canvas & {
+      _renderBackground: (ctx: CanvasRenderingContext2D) => void
+    }
+    const renderBackground = board._renderBackground
+    board._renderBackground = function (ctx: CanvasRenderingContext2D) {
+      if (ctx === canvas.getContext() && getArtboards().length) {
+        renderArtboards(canvas, ctx, () => renderBackground.call(this, ctx))
+      } else {
+        renderBackground.call(this, ctx)
+      }
+    }
+  }
+
+  /**
+   * Add an artboard next to the last one, or in the middle of the view
+   * @param width size in unit
+   * @param unit RulerUnit
+   */
+  addArtboard(name: string, width: number, height: number, unit: string) {
+    const canvas = paintBoard.canvas
+    if (!canvas) {
+      return
+    }
+    const unitSize = RULER_UNIT_SIZE[unit] ?? 1
+    const artboards = getArtboards()
+    const last = artboards[artboards.length - 1]
+    const center = getViewCenter(canvas)
+    const artboard: IArtboard = {
+      id: uuidv4(),
+      name,
+      unit,
+      left: last
+        ? last.left + last.width + ARTBOARD_GAP
+        : center.x - (width * unitSize) / 2,
+      top: last ? last.top : center.y - (height * unitSize) / 2,
+      width: width * unitSize,
+      height: height * unitSize
+    }
+    this.saveArtboards([...artboards, artboard])
+    this.zoomToArtboard(artboard.id)
+  }
+
+  updateArtboard(id: string, data: Partial<IArtboard>) {
+    this.saveArtboards(
+      getArtboards().map((artboard) =>
+        artboard.id === id ? { ...artboard, ...data } : artboard
+      )
+    )
+  }
+
+  /**
+   * Swap portrait and landscape
+   */
+  rotateArtboard(id: string) {
+    const artboard = getArtboards().find((item) => item.id === id)
+    if (artboard) {
+      this.updateArtboard(id, {
+        width: artboard.height,
+        height: artboard.width
+      })
+    }
+  }
+
+  deleteArtboard(id: string) {
+    this.saveArtboards(getArtboards().filter((artboard) => artboard.id !== id))
+  }
+
+  zoomToArtboard(id: string) {
+    const artboard = getArtboards().find((item) => item.id === id)
+    if (artboard) {
+      paintBoard.evnet?.zoomEvent.zoomToBounds(artboard)
+    }
+  }
+
+  saveArtboards(artboards: IArtboard[]) {
+    useFileStore.getState().updateArtboards(artboards)
+    paintBoard.canvas?.requestRenderAll()
+  }
+}
+
+export const artboards = new Artboards()
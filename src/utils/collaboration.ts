@@ -0,0 +1,451 @@
+import { paintBoard } from './paintBoard'
+import { getStateBoardData } from './common/loadCanvas'
+import { inlineAssets, storeInlineAssets } from './common/assets'
+import { IHistoryCommand } from './history'
+import { IPresence, presence } from './presence'
+import useFileStore, { IBoardData, waitForFileHydration } from '@/store/files'
+
+export const CollaborationStatus = {
+  OFFLINE: 'offline',
+  CONNECTING: 'connecting',
+  SYNCING: 'syncing', // waiting for the board of the room
+  ONLINE: 'online'
+}
+
+const ORDER_KEY = '__order'
+const CANVAS_KEY = '__canvas'
+
+/**
+ * Lamport timestamp of a change, the greater one wins
+ */
+export interface IStamp {
+  clock: number
+  clientId: string
+}
+
+/**
+ * Messages between the clients and the relay server, see server/relay.js
+ */
+export type ICollaborationMessage =
+  | { type: 'join'; room: string }
+  | { type: 'joined'; clientId: string; peers: string[] }
+  | { type: 'peer-joined'; clientId: string }
+  | { type: 'peer-left'; clientId: string }
+  | { type: 'snapshot-request'; from: string }
+  | {
+      type: 'snapshot'
+      to?: string
+      data: ISnapshotData | null // null: nobody can send the board
+    }
+  | {
+      type: 'ops'
+      clientId: string
+      clock: number
+      commands: IHistoryCommand[]
+    }
+  | { type: 'presence'; clientId: string; presence: IPresence }
+
+interface ISnapshotData {
+  boardData: Partial<IBoardData>
+  clock: number
+  versions: Record<string, IStamp>
+}
+
+const isNewer = (stamp: IStamp, version?: IStamp) => {
+  if (!version) {
+    return true
+  }
+  if (stamp.clock !== version.clock) {
+    return stamp.clock > version.clock
+  }
+  return stamp.clientId > version.clientId
+}
+
+const getPropKey = (id: string, prop: string) => `${id}:${prop}`
+
+/**
+ * Collaboration
+ * Shares the object operations of the current file with the other clients of its room.
+ * Every object, object prop, the stacking order and the background keep the stamp
+ * of their last change, so concurrent changes resolve the same way on every client.
+ */
+export class Collaboration {
+  socket: WebSocket | null = null
+  server = '' // relay server url of the session
+  clientId = '' // given by the relay server when joining
+  room = '' // file id
+  status = CollaborationStatus.OFFLINE
+  peers: string[] = []
+  clock = 0
+  versions: Record<string, IStamp> = {} // object id or prop key -> last change
+  pendingOps: ICollaborationMessage[] = [] // received before the board of the room
+  queuedCommands: IHistoryCommand[] = [] // local changes made before the client is online
+  hookFns: Array<() => void> = []
+  sending = Promise.resolve() // keeps the order of sent operations
+  receiving = Promise.resolve() // keeps the order of received operations
+
+  /**
+   * Join the room of a file
+   * @param server relay server url, e.g. ws://localhost:8787
+   * @param room file id
+   */
+  connect(server: string, room: string) {
+    this.disconnect()
+    this.server = server
+    this.room = room
+    this.clock = 0
+    this.versions = {}
+    this.pendingOps = []
+    this.queuedCommands = []
+    this.updateStatus(CollaborationStatus.CONNECTING)
+
+    let socket: WebSocket
+    try {
+      socket = new WebSocket(server)
+    } catch (error) {
+      console.log('collaboration connect fail', error)
+      this.room = ''
+      this.updateStatus(CollaborationStatus.OFFLINE)
+      return
+    }
+    this.socket = socket
+    socket.onopen = () => {
+      this.post({ type: 'join', room })
+    }
+    socket.onmessage = (e) => {
+      let message: ICollaborationMessage
+      try {
+        message = JSON.parse(e.data)
+      } catch (error) {
+        console.log('collaboration message parse fail', error)
+        return
+      }
+      this.handleMessage(message)
+    }
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null
+        this.room = ''
+        this.peers = []
+        this.updateStatus(CollaborationStatus.OFFLINE)
+      }
+    }
+  }
+
+  disconnect() {
+    const socket = this.socket
+    this.socket = null
+    this.room = ''
+    this.peers = []
+    socket?.close()
+    this.updateStatus(CollaborationStatus.OFFLINE)
+  }
+
+  post(message: ICollaborationMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message))
+    }
+  }
+
+  /**
+   * Share local commands, e.g. a history step, undo or redo
+   * Commands made while joining are queued until the client is online.
+   */
+  send(commands: IHistoryCommand[]) {
+    if (this.status === CollaborationStatus.OFFLINE || !commands.length) {
+      return
+    }
+    if (this.status !== CollaborationStatus.ONLINE) {
+      this.queuedCommands.push(...commands)
+      return
+    }
+    this.clock++
+    const stamp = { clock: this.clock, clientId: this.clientId }
+    commands.forEach((command) => this.markCommand(command, stamp))
+    // collaborators have no access to this asset store
+    this.sending = this.sending.then(async () => {
+      this.post({
+        type: 'ops',
+        clientId: this.clientId,
+        clock: stamp.clock,
+        commands: await inlineAssets(commands)
+      })
+    })
+  }
+
+  /**
+   * Send the commands queued while joining
+   * @param reapply the board of the room replaced them, they are applied again first
+   */
+  async flushQueue(reapply: boolean) {
+    const commands = this.queuedCommands
+    this.queuedCommands = []
+    if (!commands.length) {
+      return
+    }
+    if (reapply) {
+      await paintBoard.history?.applyBatches([commands])
+    }
+    this.send(commands)
+  }
+
+  /**
+   * Remember the stamp of everything a command changes
+   */
+  markCommand(command: IHistoryCommand, stamp: IStamp) {
+    switch (command.type) {
+      case 'add':
+      case 'remove':
+        this.versions[command.id] = stamp
+        Object.keys(command.data).forEach((prop) => {
+          this.versions[getPropKey(command.id, prop)] = stamp
+        })
+        break
+      case 'modify':
+        Object.keys(command.after).forEach((prop) => {
+          this.versions[getPropKey(command.id, prop)] = stamp
+        })
+        break
+      case 'reorder':
+        this.versions[ORDER_KEY] = stamp
+        break
+      case 'canvas':
+        Object.keys({ ...command.before, ...command.after }).forEach((prop) => {
+          this.versions[getPropKey(CANVAS_KEY, prop)] = stamp
+        })
+        break
+    }
+  }
+
+  /**
+   * Keep the parts of remote commands newer than the local changes
+   * Adding or removing an object and each of its props are decided on their own.
+   */
+  resolveCommands(commands: IHistoryCommand[], stamp: IStamp) {
+    const state = paintBoard.history?.state
+    const resolved: IHistoryCommand[] = []
+    commands.forEach((command) => {
+      switch (command.type) {
+        case 'add':
+        case 'remove':
+          if (isNewer(stamp, this.versions[command.id])) {
+            resolved.push(command)
+            this.markCommand(command, stamp)
+          }
+          break
+        case 'modify': {
+          const current = state?.objects[command.id]
+          const props = Object.keys(command.after).filter((prop) =>
+            isNewer(stamp, this.versions[getPropKey(command.id, prop)])
+          )
+          if (!current || !props.length) {
+            break
+          }
+          const after = Object.fromEntries(
+            props.map((prop) => [prop, command.after[prop]])
+          )
+          const before = Object.fromEntries(
+            props.map((prop) => [prop, current[prop]])
+          )
+          resolved.push({ ...command, before, after })
+          this.markCommand({ ...command, after }, stamp)
+          break
+        }
+        case 'reorder':
+          if (isNewer(stamp, this.versions[ORDER_KEY])) {
+            resolved.push(command)
+            this.markCommand(command, stamp)
+          }
+          break
+        case 'canvas': {
+          const props = Object.keys({
+            ...command.before,
+            ...command.after
+          }) as Array<keyof IBoardData>
+          const changed = props.filter((prop) =>
+            isNewer(stamp, this.versions[getPropKey(CANVAS_KEY, prop)])
+          )
+          if (!changed.length) {
+            break
+          }
+          const current = state?.props ?? {}
+          const after = { ...current }
+          changed.forEach((prop) => {
+            if (prop in command.after) {
+              Object.assign(after, { [prop]: command.after[prop] })
+            } else {
+              delete after[prop]
+            }
+          })
+          resolved.push({ type: 'canvas', before: current, after })
+          changed.forEach((prop) => {
+            this.versions[getPropKey(CANVAS_KEY, prop)] = stamp
+          })
+          break
+        }
+      }
+    })
+    return resolved
+  }
+
+  handleMessage(message: ICollaborationMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.clientId = message.clientId
+        this.peers = message.peers
+        // the first client of the room shares its board
+        if (message.peers.length) {
+          this.updateStatus(CollaborationStatus.SYNCING)
+        } else {
+          this.updateStatus(CollaborationStatus.ONLINE)
+          this.flushQueue(false)
+        }
+        break
+      case 'peer-joined':
+        this.peers = [...this.peers, message.clientId]
+        this.triggerHook()
+        presence.send()
+        break
+      case 'peer-left':
+        this.peers = this.peers.filter((id) => id !== message.clientId)
+        presence.remove(message.clientId)
+        this.triggerHook()
+        break
+      case 'snapshot-request':
+        this.sendSnapshot(message.from)
+        break
+      case 'snapshot':
+        this.applySnapshot(message.data)
+        break
+      case 'ops':
+        if (this.status === CollaborationStatus.SYNCING) {
+          this.pendingOps.push(message)
+        } else {
+          this.applyOps(message)
+        }
+        break
+      case 'presence':
+        presence.receive(message.clientId, message.presence)
+        break
+    }
+  }
+
+  /**
+   * Send the committed board to a client joining the room
+   * Images are inlined, the other client has no access to this asset store.
+   */
+  async sendSnapshot(to: string) {
+    const history = paintBoard.history
+    if (!history) {
+      return
+    }
+    // take the board and its clock together, operations may come in while the assets are inlined
+    const state = getStateBoardData(history.state)
+    const clock = this.clock
+    const versions: Record<string, IStamp> = {}
+    Object.entries(this.versions).forEach(([key, stamp]) => {
+      versions[key] = { ...stamp }
+    })
+    const boardData = await inlineAssets(state)
+    this.post({
+      type: 'snapshot',
+      to,
+      data: { boardData, clock, versions }
+    })
+  }
+
+  /**
+   * Replace the board with the board of the room, then apply the operations received meanwhile
+   */
+  applySnapshot(data: ISnapshotData | null) {
+    const canvas = paintBoard.canvas
+    if (this.status !== CollaborationStatus.SYNCING || !canvas) {
+      return
+    }
+    const done = (isReplaced: boolean) => {
+      this.updateStatus(CollaborationStatus.ONLINE)
+      const pendingOps = this.pendingOps
+      this.pendingOps = []
+      pendingOps.forEach((message) => this.applyOps(message))
+      this.flushQueue(isReplaced)
+    }
+    if (!data) {
+      done(false)
+      return
+    }
+    this.clock = Math.max(this.clock, data.clock)
+    this.versions = data.versions
+    paintBoard.replaceBoardData(data.boardData).then(() => done(true))
+  }
+
+  applyOps(message: ICollaborationMessage) {
+    if (message.type !== 'ops') {
+      return
+    }
+    this.clock = Math.max(this.clock, message.clock)
+    this.receiving = this.receiving.then(async () => {
+      const commands = this.resolveCommands(
+        await storeInlineAssets(message.commands),
+        { clock: message.clock, clientId: message.clientId }
+      )
+      if (commands.length) {
+        await paintBoard.history?.applyRemote(commands)
+      }
+    })
+  }
+
+  updateStatus(status: string) {
+    this.status = status
+    if (status === CollaborationStatus.ONLINE) {
+      presence.send()
+    } else {
+      presence.clear()
+    }
+    this.triggerHook()
+  }
+
+  /**
+   * Add hook fn to trigger when the status or the peers change
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const collaboration = new Collaboration()
+
+/**
+ * Open the file of a room, it is created if it isn't here yet, and join the room
+ * @param server relay server url
+ * @param room file id
+ */
+export const joinRoom = async (server: string, room: string) => {
+  // the persisted file index would replace a shared file opened before it loads
+  await waitForFileHydration()
+  if (useFileStore.getState().currentId !== room) {
+    useFileStore.getState().openSharedFile(room)
+    await paintBoard.initCanvasStorage()
+  }
+  collaboration.connect(server, room)
+}
+
+/**
+ * Link other people open to join the room of the current file
+ */
+export const getShareLink = (server: string, room: string) => {
+  const url = new URL(window.location.href)
+  url.searchParams.set('room', room)
+  url.searchParams.set('server', server)
+  return url.toString()
+}
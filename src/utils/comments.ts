@@ -0,0 +1,277 @@
+import { fabric } from 'fabric'
+import { v4 as uuidv4 } from 'uuid'
+import { paintBoard } from './paintBoard'
+import { setViewCenter } from './common/bounds'
+import useFileStore from '@/store/files'
+import useBoardStore from '@/store/board'
+
+export const COMMENT_PIN_COLOR = '#65CC8A'
+const EXPORT_PIN_RADIUS = 12 // output pixels
+
+export interface ICommentReply {
+  id: string
+  author: string // display name, empty for guests
+  color: string // author color
+  text: string
+  createdAt: number
+}
+
+/**
+ * Comment thread pinned to a board position or to an object
+ */
+export interface ICommentThread {
+  id: string
+  x: number // world position of the pin when it was added
+  y: number
+  objectId?: string // object the pin moves with
+  offset?: { x: number; y: number } // pin position in the object's own coordinates
+  resolved: boolean
+  replies: ICommentReply[] // the first one opens the thread
+  createdAt: number
+}
+
+/**
+ * Pin of a thread being written
+ */
+export type ICommentDraft = Pick<
+  ICommentThread,
+  'x' | 'y' | 'objectId' | 'offset'
+>
+
+const createReply = (text: string): ICommentReply => {
+  const { userName, userColor } = useBoardStore.getState()
+  return {
+    id: uuidv4(),
+    author: userName,
+    color: userColor,
+    text,
+    createdAt: Date.now()
+  }
+}
+
+/**
+ * Threads of the current file
+ */
+export const getComments = () => {
+  const { files, currentId } = useFileStore.getState()
+  return files.find((file) => file.id === currentId)?.comments ?? []
+}
+
+/**
+ * World position of a pin, it follows the move, scale and rotation of its object
+ */
+export const getThreadPosition = (
+  canvas: fabric.Canvas,
+  thread: ICommentThread | ICommentDraft
+) => {
+  const obj = thread.objectId
+    ? canvas.getObjects().find((item) => item.id === thread.objectId)
+    : undefined
+  if (obj && thread.offset) {
+    return fabric.util.transformPoint(
+      new fabric.Point(thread.offset.x, thread.offset.y),
+      obj.calcTransformMatrix()
+    )
+  }
+  return new fabric.Point(thread.x, thread.y)
+}
+
+/**
+ * Pins of the open threads drawn into an image export
+ * @param multiplier output pixels per world unit
+ */
+export const getExportPins = (canvas: fabric.Canvas, multiplier: number) => {
+  const radius = EXPORT_PIN_RADIUS / multiplier
+  return getComments()
+    .map((thread, index) => ({ thread, index }))
+    .filter(({ thread }) => !thread.resolved)
+    .map(({ thread, index }) => {
+      const position = getThreadPosition(canvas, thread)
+      return new fabric.Group(
+        [
+          new fabric.Circle({
+            radius,
+            fill: COMMENT_PIN_COLOR,
+            stroke: '#ffffff',
+            strokeWidth: radius / 6,
+            originX: 'center',
+            originY: 'center'
+          }),
+          new fabric.Text(String(index + 1), {
+            fontSize: radius,
+            fontFamily: 'sans-serif',
+            fill: '#ffffff',
+            originX: 'center',
+            originY: 'center'
+          })
+        ],
+        {
+          left: position.x,
+          top: position.y,
+          originX: 'center',
+          originY: 'center',
+          excludeFromExport: true
+        }
+      )
+    })
+}
+
+/**
+ * Comment Board
+ * Threads live in the file next to its board data, so they travel with saved
+ * and uploaded files. Pins are shown over the canvas, not drawn on it.
+ */
+export class CommentBoard {
+  draft: ICommentDraft | null = null // new pin waiting for its first comment
+  activeId = '' // thread shown open
+  showResolved = false
+  hookFns: Array<() => void> = []
+
+  init(canvas: fabric.Canvas) {
+    // pins follow the viewport and their objects
+    canvas.on('after:render', () => {
+      if (this.draft || getComments().length) {
+        this.triggerHook()
+      }
+    })
+  }
+
+  /**
+   * Drop a pin, on an object it moves with the object
+   * @param point world position
+   * @param target object under the pointer
+   */
+  startDraft(point: fabric.Point, target?: fabric.Object) {
+    const objectId = target?.id
+    const offset =
+      target && objectId
+        ? fabric.util.transformPoint(
+            point,
+            fabric.util.invertTransform(target.calcTransformMatrix())
+          )
+        : undefined
+    this.draft = {
+      x: point.x,
+      y: point.y,
+      ...(offset ? { objectId, offset: { x: offset.x, y: offset.y } } : {})
+    }
+    this.activeId = ''
+    this.triggerHook()
+  }
+
+  cancelDraft() {
+    this.draft = null
+    this.triggerHook()
+  }
+
+  /**
+   * Open a thread on the drafted pin
+   */
+  addThread(text: string) {
+    if (!this.draft || !text.trim()) {
+      return
+    }
+    const thread: ICommentThread = {
+      id: uuidv4(),
+      ...this.draft,
+      resolved: false,
+      replies: [createReply(text.trim())],
+      createdAt: Date.now()
+    }
+    this.draft = null
+    this.activeId = thread.id
+    useFileStore.getState().updateComments([...getComments(), thread])
+    this.triggerHook()
+  }
+
+  addReply(threadId: string, text: string) {
+    if (!text.trim()) {
+      return
+    }
+    this.updateThread(threadId, (thread) => ({
+      ...thread,
+      replies: [...thread.replies, createReply(text.trim())]
+    }))
+  }
+
+  /**
+   * Resolve or reopen a thread
+   */
+  updateResolved(threadId: string, resolved: boolean) {
+    this.updateThread(threadId, (thread) => ({ ...thread, resolved }))
+    if (resolved && !this.showResolved) {
+      this.activeId = ''
+      this.triggerHook()
+    }
+  }
+
+  deleteThread(threadId: string) {
+    useFileStore
+      .getState()
+      .updateComments(getComments().filter((thread) => thread.id !== threadId))
+    if (this.activeId === threadId) {
+      this.activeId = ''
+    }
+    this.triggerHook()
+  }
+
+  updateThread(
+    threadId: string,
+    fn: (thread: ICommentThread) => ICommentThread
+  ) {
+    useFileStore
+      .getState()
+      .updateComments(
+        getComments().map((thread) =>
+          thread.id === threadId ? fn(thread) : thread
+        )
+      )
+  }
+
+  /**
+   * Open a thread and move its pin to the center of the view
+   */
+  focus(threadId: string) {
+    const canvas = paintBoard.canvas
+    const thread = getComments().find((item) => item.id === threadId)
+    if (!canvas || !thread) {
+      return
+    }
+    setViewCenter(canvas, getThreadPosition(canvas, thread))
+    paintBoard.saveView()
+    this.draft = null
+    this.activeId = threadId
+    this.triggerHook()
+  }
+
+  updateActive(threadId: string) {
+    this.activeId = threadId
+    this.draft = null
+    this.triggerHook()
+  }
+
+  updateShowResolved(showResolved: boolean) {
+    this.showResolved = showResolved
+    this.triggerHook()
+  }
+
+  /**
+   * Add hook fn to trigger when pins move or the open thread changes
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const commentBoard = new CommentBoard()
@@ -0,0 +1,206 @@
+import { fabric } from 'fabric'
+import { createStore, delMany, get, keys, set } from 'idb-keyval'
+import { uniq } from 'lodash'
+import { getAllBoardData } from './fileStorage'
+
+/**
+ * Images are stored once in IndexedDB by the SHA-256 of their content,
+ * board data only keeps an `asset:<hash>` reference as the image src.
+ */
+export const ASSET_PREFIX = 'asset:'
+const ASSET_REF_REG = /asset:[0-9a-f]{64}/g
+
+const assetStore = createStore('paint-board-assets', 'assets')
+
+const assetURLs = new Map<string, string>() // hash -> object url
+const assetHashes = new Map<string, string>() // object url -> hash
+let isLoaderInstalled = false
+
+const isDataURL = (src?: string) => !!src?.startsWith('data:image/')
+
+const isAssetRef = (src?: string) => !!src?.startsWith(ASSET_PREFIX)
+
+const hashBlob = async (blob: Blob) => {
+  const buffer = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+const blobToDataURL = (blob: Blob) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = reject
+    reader.readAsDataURL(blob)
+  })
+}
+
+const getObjectURL = (hash: string, blob: Blob) => {
+  let url = assetURLs.get(hash)
+  if (!url) {
+    url = URL.createObjectURL(blob)
+    assetURLs.set(hash, url)
+    assetHashes.set(url, hash)
+  }
+  return url
+}
+
+/**
+ * Move an image data url into the asset store, identical images share one asset
+ * @param dataURL image data url
+ * @returns object url to load the image from, the data url itself if it can't be stored
+ */
+export const saveAsset = async (dataURL: string) => {
+  if (!isDataURL(dataURL) || !globalThis.crypto?.subtle) {
+    return dataURL
+  }
+  try {
+    const blob = await (await fetch(dataURL)).blob()
+    const hash = await hashBlob(blob)
+    if (!assetURLs.has(hash) && !(await get(hash, assetStore))) {
+      await set(hash, blob, assetStore)
+    }
+    return getObjectURL(hash, blob)
+  } catch (error) {
+    console.log('save asset fail', error)
+    return dataURL
+  }
+}
+
+/**
+ * Object url of an asset reference
+ */
+const loadAsset = async (ref: string) => {
+  const hash = ref.slice(ASSET_PREFIX.length)
+  const url = assetURLs.get(hash)
+  if (url) {
+    return url
+  }
+  const blob = await get<Blob>(hash, assetStore)
+  return blob ? getObjectURL(hash, blob) : ref
+}
+
+const getAssetDataURL = async (ref: string) => {
+  const blob = await get<Blob>(ref.slice(ASSET_PREFIX.length), assetStore)
+  return blob ? blobToDataURL(blob) : ref
+}
+
+/**
+ * Serialize images by asset reference and load them back from the asset store
+ * Inline data urls are moved into the store when a board is loaded.
+ */
+export const initAssetLoader = () => {
+  if (isLoaderInstalled) {
+    return
+  }
+  isLoaderInstalled = true
+
+  // fabric typings miss fromObject and the filtered argument of getSrc
+  const ImageClass = fabric.Image as unknown as {
+    prototype: { getSrc: (filtered?: boolean) => string }
+    fromObject: (
+      object: { src?: string },
+      callback: (image: fabric.Image, isError?: boolean) => void
+    ) => void
+  }
+
+  const getSrc = ImageClass.prototype.getSrc
+  ImageClass.prototype.getSrc = function (filtered) {
+    const src = getSrc.call(this, filtered)
+    const hash = assetHashes.get(src)
+    return hash ? `${ASSET_PREFIX}${hash}` : src
+  }
+
+  const fromObject = ImageClass.fromObject
+  ImageClass.fromObject = function (object, callback) {
+    const src = object.src
+    if (!isDataURL(src) && !isAssetRef(src)) {
+      return fromObject.call(this, object, callback)
+    }
+    const load = isAssetRef(src)
+      ? loadAsset(src as string)
+      : saveAsset(src as string)
+    // fall back to the original src so the callback is always called
+    load
+      .catch(() => src as string)
+      .then((url) => {
+        fromObject.call(this, { ...object, src: url }, callback)
+      })
+  }
+}
+
+/**
+ * Whether board data still embeds images as data urls
+ */
+export const hasInlineAssets = (data: unknown) => {
+  return /"src":"data:image\//.test(JSON.stringify(data) ?? '')
+}
+
+/**
+ * Replace every asset reference with its data url
+ * Used by exports that leave this browser.
+ * @param data any JSON data, e.g. a file or a workspace
+ */
+export const inlineAssets = async <T>(data: T): Promise<T> => {
+  let json = JSON.stringify(data)
+  const refs = uniq(json.match(ASSET_REF_REG) ?? [])
+  if (!refs.length) {
+    return data
+  }
+  const dataURLs = await Promise.all(refs.map(getAssetDataURL))
+  refs.forEach((ref, index) => {
+    json = json.split(`"${ref}"`).join(JSON.stringify(dataURLs[index]))
+  })
+  return JSON.parse(json)
+}
+
+/**
+ * Move the image data urls of JSON data into the asset store and refer to them instead
+ * Used by data from other browsers, e.g. collaborators.
+ */
+export const storeInlineAssets = async <T>(data: T): Promise<T> => {
+  let json = JSON.stringify(data)
+  const dataURLs = uniq(json.match(/"data:image\/[^"]+"/g) ?? [])
+  for (const item of dataURLs) {
+    const hash = assetHashes.get(await saveAsset(JSON.parse(item)))
+    if (hash) {
+      json = json.split(item).join(`"${ASSET_PREFIX}${hash}"`)
+    }
+  }
+  return dataURLs.length ? JSON.parse(json) : data
+}
+
+/**
+ * Replace asset object urls in exported markup, e.g. svg, with data urls
+ */
+export const inlineAssetURLs = async (text: string) => {
+  for (const [url, hash] of assetHashes) {
+    if (text.includes(url)) {
+      const dataURL = await getAssetDataURL(`${ASSET_PREFIX}${hash}`)
+      text = text.split(url).join(dataURL)
+    }
+  }
+  return text
+}
+
+/**
+ * Delete assets no file refers to anymore
+ * @param extraData other data that may refer to assets, e.g. timelapse records
+ */
+export const collectAssetGarbage = async (extraData: unknown[] = []) => {
+  const referenced = new Set<string>()
+  const boards = await getAllBoardData()
+  ;[...boards, ...extraData].forEach((data) => {
+    ;(JSON.stringify(data)?.match(ASSET_REF_REG) ?? []).forEach((ref) => {
+      referenced.add(ref.slice(ASSET_PREFIX.length))
+    })
+  })
+  // assets loaded in this session may still be used by unsaved changes, e.g. undo steps
+  const unused = (await keys<string>(assetStore)).filter(
+    (hash) => !referenced.has(hash) && !assetURLs.has(hash)
+  )
+  if (unused.length) {
+    await delMany(unused, assetStore)
+  }
+}
@@ -1,6 +1,7 @@
 import { paintBoard } from '../paintBoard'
 import { fabric } from 'fabric'
 import useBoardStore from '@/store/board'
+import { saveAsset } from './assets'
 
 export const handleBackgroundImageWhenCanvasSizeChange = (isRender = true) => {
   const backgroundImage = paintBoard?.canvas?.backgroundImage as fabric.Image
@@ -17,19 +18,21 @@ export const updateCanvasBackgroundImage = (data: string) => {
   if (!canvas) {
     return
   }
-  fabric.Image.fromURL(
-    data,
-    (image) => {
-      updateCanvasBackgroundImageRect(image)
-
-      canvas.setBackgroundImage(image, () => {
-        paintBoard.render()
-      })
-    },
-    {
-      crossOrigin: 'anonymous'
-    }
-  )
+  saveAsset(data).then((url) => {
+    fabric.Image.fromURL(
+      url,
+      (image) => {
+        updateCanvasBackgroundImageRect(image)
+
+        canvas.setBackgroundImage(image, () => {
+          paintBoard.render()
+        })
+      },
+      {
+        crossOrigin: 'anonymous'
+      }
+    )
+  })
 }
 
 export const updateCanvasBackgroundImageRect = (image: fabric.Image) => {
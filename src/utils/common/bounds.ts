@@ -0,0 +1,119 @@
+import { fabric } from 'fabric'
+
+export interface IBounds {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * get the world-space bounding rect of objects, ignoring viewportTransform
+ * @param objects fabric objects
+ * @returns bounds, null if there is no object
+ */
+export const getObjectsBounds = (objects: fabric.Object[]): IBounds | null => {
+  if (!objects.length) {
+    return null
+  }
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  objects.forEach((obj) => {
+    const rect = obj.getBoundingRect(true, true)
+    minX = Math.min(minX, rect.left)
+    minY = Math.min(minY, rect.top)
+    maxX = Math.max(maxX, rect.left + rect.width)
+    maxY = Math.max(maxY, rect.top + rect.height)
+  })
+  return {
+    left: minX,
+    top: minY,
+    width: maxX - minX,
+    height: maxY - minY
+  }
+}
+
+/**
+ * get the world-space rect currently visible in the canvas
+ * @param canvas fabric canvas
+ */
+export const getViewportBounds = (canvas: fabric.StaticCanvas): IBounds => {
+  const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  return {
+    left: -vpt[4] / vpt[0],
+    top: -vpt[5] / vpt[3],
+    width: canvas.getWidth() / vpt[0],
+    height: canvas.getHeight() / vpt[3]
+  }
+}
+
+/**
+ * convert a client (DOM) position to a world-space point of the canvas
+ * @param canvas fabric canvas
+ * @param clientX MouseEvent clientX
+ * @param clientY MouseEvent clientY
+ */
+export const clientToWorldPoint = (
+  canvas: fabric.StaticCanvas,
+  clientX: number,
+  clientY: number
+) => {
+  const rect = canvas.getElement().getBoundingClientRect()
+  return fabric.util.transformPoint(
+    new fabric.Point(clientX - rect.left, clientY - rect.top),
+    fabric.util.invertTransform(canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0])
+  )
+}
+
+/**
+ * convert a world-space point of the canvas to a client (DOM) position
+ * @param canvas fabric canvas
+ * @param x world x
+ * @param y world y
+ */
+export const worldToClientPoint = (
+  canvas: fabric.StaticCanvas,
+  x: number,
+  y: number
+) => {
+  const rect = canvas.getElement().getBoundingClientRect()
+  const point = fabric.util.transformPoint(
+    new fabric.Point(x, y),
+    canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  )
+  return { left: rect.left + point.x, top: rect.top + point.y }
+}
+
+/**
+ * get the world-space point at the center of the canvas
+ * @param canvas fabric canvas
+ */
+export const getViewCenter = (canvas: fabric.StaticCanvas) => {
+  return fabric.util.transformPoint(
+    new fabric.Point(canvas.getWidth() / 2, canvas.getHeight() / 2),
+    fabric.util.invertTransform(canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0])
+  )
+}
+
+/**
+ * show a world-space point at the center of the canvas
+ * @param canvas fabric canvas
+ * @param center world point
+ * @param zoom defaults to the current zoom
+ */
+export const setViewCenter = (
+  canvas: fabric.StaticCanvas,
+  center: { x: number; y: number },
+  zoom = canvas.getZoom()
+) => {
+  canvas.setViewportTransform([
+    zoom,
+    0,
+    0,
+    zoom,
+    canvas.getWidth() / 2 - center.x * zoom,
+    canvas.getHeight() / 2 - center.y * zoom
+  ])
+}
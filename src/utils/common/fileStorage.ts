@@ -0,0 +1,63 @@
+import {
+  createStore,
+  del,
+  delMany,
+  get,
+  set,
+  setMany,
+  values
+} from 'idb-keyval'
+import { omit } from 'lodash'
+import { IBoardData, IFile } from '@/store/files'
+
+/**
+ * Board data of every file lives in its own IndexedDB record keyed by file id,
+ * the persisted file store only keeps the file metadata.
+ */
+const boardStore = createStore('paint-board-boards', 'boards')
+
+export const getBoardData = async (id: string) => {
+  const data = await get<string>(id, boardStore)
+  return (data ? JSON.parse(data) : {}) as Partial<IBoardData>
+}
+
+export const setBoardData = (id: string, data: Partial<IBoardData> = {}) => {
+  return set(id, JSON.stringify(data), boardStore)
+}
+
+export const setFilesBoardData = (files: IFile[]) => {
+  return setMany(
+    files.map((file) => [file.id, JSON.stringify(file.boardData ?? {})]),
+    boardStore
+  )
+}
+
+export const delBoardData = (id: string) => {
+  return del(id, boardStore)
+}
+
+export const delFilesBoardData = (ids: string[]) => {
+  return delMany(ids, boardStore)
+}
+
+export const getAllBoardData = async () => {
+  const data = await values<string>(boardStore)
+  return data.map((item) => JSON.parse(item) as Partial<IBoardData>)
+}
+
+/**
+ * File with its board data, read from IndexedDB unless it is loaded
+ */
+export const getFileWithData = async (file: IFile): Promise<IFile> => {
+  if (file.boardData) {
+    return file
+  }
+  return { ...file, boardData: await getBoardData(file.id) }
+}
+
+/**
+ * File metadata without board data
+ */
+export const getFileMeta = (file: IFile): IFile => {
+  return omit(file, 'boardData')
+}
@@ -13,7 +13,7 @@ export const compareVersion = (v1: string, v2: string) => {
     v1s.push('0')
   }
   while (v2s.length < len) {
-    v1s.push('0')
+    v2s.push('0')
   }
 
   for (let i = 0; i < len; i++) {
@@ -77,3 +77,33 @@ export const isMobile = () => {
     navigator.userAgent
   )
 }
+
+/**
+ * download a file through a temporary link
+ * @param href object url or data url
+ * @param fileName download file name
+ */
+export const downloadFile = (href: string, fileName: string) => {
+  const link = document.createElement('a')
+  link.href = href
+  link.download = fileName
+  link.click()
+}
+
+/**
+ * read a file as text
+ * @param file File
+ * @returns text, rejected if the file can't be read
+ */
+export const readFileAsText = (file: File) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (fEvent) => {
+      resolve((fEvent.target?.result as string) ?? '')
+    }
+    reader.onerror = (error) => {
+      reject(error)
+    }
+    reader.readAsText(file)
+  })
+}
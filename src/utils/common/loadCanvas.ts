@@ -1,4 +1,5 @@
 import { fabric } from 'fabric'
+import { v4 as uuidv4 } from 'uuid'
 import {
   actionHandler,
   anchorWrapper,
@@ -11,7 +12,17 @@ import {
 } from '../element/shape/utils/arrowLine'
 import { ELEMENT_CUSTOM_TYPE } from '@/constants'
 import { paintBoard } from '../paintBoard'
-import { IBoardData } from '@/store/files'
+import { IBoardData, IFile } from '@/store/files'
+import { migrateFile } from './migration'
+import { setViewCenter } from './bounds'
+
+// custom object properties kept in board data
+export const CANVAS_JSON_PROPERTIES = [
+  'id',
+  '_customType',
+  'perPixelTargetFind',
+  'objectCaching'
+]
 
 /**
  * get fabric.js canvas JSON data
@@ -20,18 +31,77 @@ import { IBoardData } from '@/store/files'
 export const getCanvasJSON = (): Partial<IBoardData> => {
   const canvas = paintBoard?.canvas
   if (canvas) {
-    return (
-      canvas.toDatalessJSON([
-        'id',
-        '_customType',
-        'perPixelTargetFind',
-        'objectCaching'
-      ]) ?? {}
-    )
+    return canvas.toDatalessJSON(CANVAS_JSON_PROPERTIES) ?? {}
   }
   return {}
 }
 
+export type ObjectData = Record<string, unknown> // serialized fabric object
+
+export interface ICanvasState {
+  props: Partial<IBoardData> // board data besides objects, e.g. background
+  ids: string[] // object ids in stacking order
+  objects: Record<string, ObjectData>
+}
+
+// fabric serializes objects inside an active selection with canvas coordinates here
+interface ICanvasSerializer {
+  _toObject: (
+    object: fabric.Object,
+    methodName: string,
+    propertiesToInclude: string[]
+  ) => ObjectData
+  __serializeBgOverlay: (
+    methodName: string,
+    propertiesToInclude: string[]
+  ) => Partial<IBoardData>
+}
+
+/**
+ * get fabric.js canvas data split by object id
+ * Objects without an id get one, so the history can refer to them.
+ */
+export const getCanvasState = (): ICanvasState => {
+  const state: ICanvasState = { props: {}, ids: [], objects: {} }
+  const canvas = paintBoard?.canvas as
+    | (fabric.Canvas & ICanvasSerializer)
+    | null
+  if (!canvas) {
+    return state
+  }
+  state.props = {
+    version: fabric.version,
+    ...canvas.__serializeBgOverlay('toDatalessObject', CANVAS_JSON_PROPERTIES)
+  }
+  canvas.getObjects().forEach((obj) => {
+    if (obj.excludeFromExport) {
+      return
+    }
+    if (!obj.id) {
+      obj.set({ id: uuidv4() } as any)
+    }
+    state.ids.push(obj.id)
+    state.objects[obj.id] = canvas._toObject(
+      obj,
+      'toDatalessObject',
+      CANVAS_JSON_PROPERTIES
+    )
+  })
+  return state
+}
+
+/**
+ * Board data of a canvas state
+ */
+export const getStateBoardData = (state: ICanvasState): Partial<IBoardData> => {
+  return {
+    ...state.props,
+    objects: state.ids.map(
+      (id) => state.objects[id]
+    ) as unknown as fabric.Object[]
+  }
+}
+
 /**
  * Handling canvas json loaded data
  * Used to initialize undo redo
@@ -75,3 +145,31 @@ export const handleCanvasJSONLoaded = (canvas: fabric.Canvas) => {
     }
   })
 }
+
+/**
+ * Load the board data of a file into an offscreen canvas
+ * Used to export files without switching the current board
+ * @param file paint board file
+ * @returns fabric.StaticCanvas, dispose it after use
+ */
+export const loadStaticCanvas = (file: IFile) => {
+  // files of other boards may not be upgraded yet
+  const { boardData, viewCenter, zoom } = migrateFile(file)
+  return new Promise<fabric.StaticCanvas>((resolve) => {
+    const canvas = new fabric.StaticCanvas(null, {
+      width: window.innerWidth,
+      height: window.innerHeight,
+      backgroundVpt: false,
+      enableRetinaScaling: false
+    })
+    canvas.loadFromJSON(boardData ?? {}, () => {
+      if (viewCenter) {
+        setViewCenter(canvas, viewCenter, zoom || 1)
+      }
+      if (!canvas.backgroundColor) {
+        canvas.backgroundColor = 'rgba(255, 255, 255, 1)'
+      }
+      resolve(canvas)
+    })
+  })
+}
@@ -0,0 +1,137 @@
+import { fabric } from 'fabric'
+import { v4 as uuidv4 } from 'uuid'
+import { cloneDeep } from 'lodash'
+import { compareVersion } from '.'
+import { ELEMENT_CUSTOM_TYPE } from '@/constants'
+import { BOARD_VERSION, IBoardData, IFile } from '@/store/files'
+
+type ObjectJSON = Record<string, any>
+
+interface IMigration {
+  version: string // board version the data is upgraded to
+  migrate?: (boardData: Partial<IBoardData>) => void // mutates the cloned board data
+  migrateFile?: (file: IFile) => void // mutates the copied file, besides its board data
+}
+
+/**
+ * Call fn for every object, including objects nested in groups
+ */
+const forEachObject = (
+  objects: ObjectJSON[] | undefined,
+  fn: (obj: ObjectJSON) => void
+) => {
+  objects?.forEach((obj) => {
+    if (obj && typeof obj === 'object') {
+      fn(obj)
+      forEachObject(obj.objects, fn)
+    }
+  })
+}
+
+/**
+ * Board data migrations, ordered by version
+ * Each step upgrades data written by the previous version, so old data runs through all later steps.
+ */
+const migrations: IMigration[] = [
+  {
+    // Boards before 1.3.0 didn't tag every object with an id and _customType
+    version: '1.3.0',
+    migrate(boardData) {
+      forEachObject(boardData.objects as ObjectJSON[], (obj) => {
+        if (!obj.id) {
+          obj.id = uuidv4()
+        }
+        if (!obj._customType) {
+          if (obj.type === 'i-text') {
+            obj._customType = ELEMENT_CUSTOM_TYPE.I_TEXT
+          } else if (obj.type === 'image') {
+            obj._customType = ELEMENT_CUSTOM_TYPE.IMAGE
+          }
+        }
+      })
+    }
+  },
+  {
+    // The view was a viewportTransform of a canvas sized as a fraction of the window,
+    // now it is the world point at the center of a full window canvas
+    version: '1.5.0',
+    migrateFile(file) {
+      const vpt = file.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+      const center = fabric.util.transformPoint(
+        new fabric.Point(
+          (window.innerWidth * (file.canvasWidth || 1)) / 2,
+          (window.innerHeight * (file.canvasHeight || 1)) / 2
+        ),
+        fabric.util.invertTransform(vpt)
+      )
+      file.viewCenter = { x: center.x, y: center.y }
+      if (file.viewportTransform) {
+        file.zoom = vpt[0]
+      }
+      delete file.viewportTransform
+      delete file.canvasWidth
+      delete file.canvasHeight
+    }
+  }
+]
+
+/**
+ * Whether the data was written by a newer paint board
+ * @param boardVersion IFile.boardVersion
+ */
+export const isNewerBoardVersion = (boardVersion?: string) => {
+  return !!boardVersion && compareVersion(boardVersion, BOARD_VERSION) > 0
+}
+
+/**
+ * Migrations after the version that wrote the data
+ */
+const getMigrations = (boardVersion: string) => {
+  return migrations.filter(
+    ({ version }) =>
+      compareVersion(version, boardVersion) > 0 &&
+      compareVersion(version, BOARD_VERSION) <= 0
+  )
+}
+
+/**
+ * Upgrade board data step by step to the current version
+ * @param boardData board data
+ * @param boardVersion version that wrote the data, files without it predate versioning
+ * @returns migrated copy, or the same data when nothing needs to change
+ */
+export const migrateBoardData = (
+  boardData: Partial<IBoardData> = {},
+  boardVersion = '0.0.0'
+) => {
+  const steps = getMigrations(boardVersion).filter(({ migrate }) => migrate)
+  if (!steps.length) {
+    return boardData
+  }
+  const data = cloneDeep(boardData)
+  steps.forEach(({ migrate }) => migrate?.(data))
+  return data
+}
+
+/**
+ * Upgrade a file to the current version
+ * Files from a newer version are left as they are.
+ * @param file IFile
+ */
+export const migrateFile = (file: IFile): IFile => {
+  if (
+    isNewerBoardVersion(file.boardVersion) ||
+    compareVersion(file.boardVersion || '0.0.0', BOARD_VERSION) === 0
+  ) {
+    return file
+  }
+  const migrated: IFile = {
+    ...file,
+    boardVersion: BOARD_VERSION,
+    boardData: migrateBoardData(file.boardData, file.boardVersion)
+  }
+  getMigrations(file.boardVersion || '0.0.0').forEach(({ migrateFile }) =>
+    migrateFile?.(migrated)
+  )
+  return migrated
+}
@@ -0,0 +1,472 @@
+import { ELEMENT_CUSTOM_TYPE } from '@/constants'
+import { GuideOrientation, RulerUnit } from '@/constants/grid'
+import { IFile } from '@/store/files'
+import { IExcalidrawScene } from '@/utils/export/excalidraw'
+
+export interface IValidationError {
+  path: string // e.g. boardData.objects[3].opacity
+  code: string // i18n key under validation
+  params?: Record<string, string | number>
+}
+
+export interface IValidationResult {
+  errors: IValidationError[] // file errors, the file can't be imported
+  objectErrors: IValidationError[] // object errors, the objects can be skipped
+  invalidObjects: number[] // indexes in boardData.objects, or in the elements of an excalidraw scene
+}
+
+type JSONObject = Record<string, any>
+
+// fabric object types the board can load
+const OBJECT_TYPES = [
+  'path',
+  'group',
+  'line',
+  'polyline',
+  'polygon',
+  'rect',
+  'circle',
+  'ellipse',
+  'triangle',
+  'text',
+  'i-text',
+  'textbox',
+  'image'
+]
+const CUSTOM_TYPES = Object.values(ELEMENT_CUSTOM_TYPE)
+
+// numeric object attributes, [min, max]
+const OBJECT_NUMBER_RANGE: Record<string, [number, number]> = {
+  left: [-Infinity, Infinity],
+  top: [-Infinity, Infinity],
+  width: [0, Infinity],
+  height: [0, Infinity],
+  scaleX: [-Infinity, Infinity],
+  scaleY: [-Infinity, Infinity],
+  angle: [-Infinity, Infinity],
+  strokeWidth: [0, Infinity],
+  opacity: [0, 1]
+}
+
+const isObject = (value: unknown): value is JSONObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Only embedded images and http(s) urls can be loaded again
+ */
+const isImageSource = (src: unknown) =>
+  typeof src === 'string' && /^(data:image\/[\w.+-]+[;,]|https?:\/\/)/.test(src)
+
+const checkNumber = (
+  errors: IValidationError[],
+  path: string,
+  value: unknown,
+  [min, max]: [number, number],
+  required = false
+) => {
+  if (value === undefined || value === null) {
+    if (required) {
+      errors.push({ path, code: 'required' })
+    }
+    return
+  }
+  if (!isFiniteNumber(value)) {
+    errors.push({ path, code: 'type', params: { expected: 'number' } })
+  } else if (value < min || value > max) {
+    errors.push({ path, code: 'range', params: { min, max } })
+  }
+}
+
+const validateImage = (
+  errors: IValidationError[],
+  path: string,
+  obj: JSONObject
+) => {
+  if (!isImageSource(obj.src)) {
+    errors.push({ path: `${path}.src`, code: 'imageSource' })
+  }
+}
+
+/**
+ * Comment threads need a pin position and their replies
+ */
+const isCommentThread = (thread: unknown) =>
+  isObject(thread) &&
+  typeof thread.id === 'string' &&
+  isFiniteNumber(thread.x) &&
+  isFiniteNumber(thread.y) &&
+  Array.isArray(thread.replies) &&
+  thread.replies.every(
+    (reply: unknown) => isObject(reply) && typeof reply.text === 'string'
+  )
+
+/**
+ * Guides need an orientation and a world position
+ */
+const isGuide = (guide: unknown) =>
+  isObject(guide) &&
+  typeof guide.id === 'string' &&
+  Object.values(GuideOrientation).includes(guide.orientation) &&
+  isFiniteNumber(guide.position)
+
+/**
+ * Artboards need a positive world size
+ */
+const isArtboard = (artboard: unknown) =>
+  isObject(artboard) &&
+  typeof artboard.id === 'string' &&
+  typeof artboard.name === 'string' &&
+  Object.values(RulerUnit).includes(artboard.unit) &&
+  isFiniteNumber(artboard.left) &&
+  isFiniteNumber(artboard.top) &&
+  isFiniteNumber(artboard.width) &&
+  isFiniteNumber(artboard.height) &&
+  artboard.width > 0 &&
+  artboard.height > 0
+
+/**
+ * Validate a fabric object json, group children are checked recursively
+ */
+const validateObject = (
+  obj: unknown,
+  path: string,
+  errors: IValidationError[]
+) => {
+  if (!isObject(obj)) {
+    errors.push({ path, code: 'type', params: { expected: 'object' } })
+    return
+  }
+  if (!OBJECT_TYPES.includes(obj.type)) {
+    errors.push({
+      path: `${path}.type`,
+      code: 'unknownType',
+      params: { value: String(obj.type) }
+    })
+    return
+  }
+  if (
+    obj._customType !== undefined &&
+    !CUSTOM_TYPES.includes(obj._customType)
+  ) {
+    errors.push({
+      path: `${path}._customType`,
+      code: 'unknownType',
+      params: { value: String(obj._customType) }
+    })
+  }
+  Object.entries(OBJECT_NUMBER_RANGE).forEach(([key, range]) => {
+    checkNumber(errors, `${path}.${key}`, obj[key], range)
+  })
+  if (obj.type === 'image') {
+    validateImage(errors, path, obj)
+  }
+  if (obj.type === 'group') {
+    if (!Array.isArray(obj.objects)) {
+      errors.push({
+        path: `${path}.objects`,
+        code: 'type',
+        params: { expected: 'array' }
+      })
+    } else {
+      obj.objects.forEach((child: unknown, index: number) => {
+        validateObject(child, `${path}.objects[${index}]`, errors)
+      })
+    }
+  }
+}
+
+/**
+ * Validate an imported file against IFile and IBoardData
+ * @param json parsed file
+ * @returns file errors and the objects that can be skipped
+ */
+export const validateFile = (json: unknown): IValidationResult => {
+  const result: IValidationResult = {
+    errors: [],
+    objectErrors: [],
+    invalidObjects: []
+  }
+  const { errors } = result
+  if (!isObject(json)) {
+    errors.push({ path: 'file', code: 'type', params: { expected: 'object' } })
+    return result
+  }
+
+  if (typeof json.title !== 'string' || !json.title) {
+    errors.push({ path: 'title', code: 'required' })
+  }
+  if (
+    json.boardVersion !== undefined &&
+    typeof json.boardVersion !== 'string'
+  ) {
+    errors.push({
+      path: 'boardVersion',
+      code: 'type',
+      params: { expected: 'string' }
+    })
+  }
+  checkNumber(errors, 'zoom', json.zoom, [Number.MIN_VALUE, Infinity])
+  checkNumber(errors, 'canvasWidth', json.canvasWidth, [0.1, 1])
+  checkNumber(errors, 'canvasHeight', json.canvasHeight, [0.1, 1])
+  if (
+    json.viewportTransform !== undefined &&
+    !(
+      Array.isArray(json.viewportTransform) &&
+      json.viewportTransform.length === 6 &&
+      json.viewportTransform.every(isFiniteNumber)
+    )
+  ) {
+    errors.push({
+      path: 'viewportTransform',
+      code: 'type',
+      params: { expected: 'number[6]' }
+    })
+  }
+  if (
+    json.viewCenter !== undefined &&
+    !(
+      isObject(json.viewCenter) &&
+      isFiniteNumber(json.viewCenter.x) &&
+      isFiniteNumber(json.viewCenter.y)
+    )
+  ) {
+    errors.push({
+      path: 'viewCenter',
+      code: 'type',
+      params: { expected: '{ x: number, y: number }' }
+    })
+  }
+
+  if (
+    json.comments !== undefined &&
+    !(Array.isArray(json.comments) && json.comments.every(isCommentThread))
+  ) {
+    errors.push({
+      path: 'comments',
+      code: 'type',
+      params: { expected: 'comment[]' }
+    })
+  }
+  if (
+    json.guides !== undefined &&
+    !(Array.isArray(json.guides) && json.guides.every(isGuide))
+  ) {
+    errors.push({
+      path: 'guides',
+      code: 'type',
+      params: { expected: 'guide[]' }
+    })
+  }
+  if (
+    json.artboards !== undefined &&
+    !(Array.isArray(json.artboards) && json.artboards.every(isArtboard))
+  ) {
+    errors.push({
+      path: 'artboards',
+      code: 'type',
+      params: { expected: 'artboard[]' }
+    })
+  }
+
+  const boardData = json.boardData
+  if (!isObject(boardData)) {
+    errors.push({ path: 'boardData', code: 'required' })
+    return result
+  }
+  if (
+    boardData.background !== undefined &&
+    typeof boardData.background !== 'string'
+  ) {
+    errors.push({
+      path: 'boardData.background',
+      code: 'type',
+      params: { expected: 'string' }
+    })
+  }
+  if (boardData.backgroundImage !== undefined) {
+    if (isObject(boardData.backgroundImage)) {
+      validateImage(
+        errors,
+        'boardData.backgroundImage',
+        boardData.backgroundImage
+      )
+    } else {
+      errors.push({
+        path: 'boardData.backgroundImage',
+        code: 'type',
+        params: { expected: 'object' }
+      })
+    }
+  }
+  if (boardData.objects === undefined) {
+    return result
+  }
+  if (!Array.isArray(boardData.objects)) {
+    errors.push({
+      path: 'boardData.objects',
+      code: 'type',
+      params: { expected: 'array' }
+    })
+    return result
+  }
+
+  boardData.objects.forEach((obj: unknown, index: number) => {
+    const objectErrors: IValidationError[] = []
+    validateObject(obj, `boardData.objects[${index}]`, objectErrors)
+    if (objectErrors.length) {
+      result.objectErrors.push(...objectErrors)
+      result.invalidObjects.push(index)
+    }
+  })
+  return result
+}
+
+/**
+ * Drop the objects that failed validation
+ * @param file validated file
+ * @param result validateFile result
+ */
+export const removeInvalidObjects = (
+  file: IFile,
+  result: IValidationResult
+): IFile => {
+  if (!result.invalidObjects.length || !file.boardData?.objects) {
+    return file
+  }
+  return {
+    ...file,
+    boardData: {
+      ...file.boardData,
+      objects: file.boardData.objects.filter(
+        (_, index) => !result.invalidObjects.includes(index)
+      )
+    }
+  }
+}
+
+const isPoint = (point: unknown) =>
+  Array.isArray(point) &&
+  point.length >= 2 &&
+  isFiniteNumber(point[0]) &&
+  isFiniteNumber(point[1])
+
+/**
+ * Validate the element attributes excalidrawToFile reads
+ */
+const validateExcalidrawElement = (
+  element: unknown,
+  path: string,
+  errors: IValidationError[]
+) => {
+  if (!isObject(element)) {
+    errors.push({ path, code: 'type', params: { expected: 'object' } })
+    return
+  }
+  if (typeof element.type !== 'string') {
+    errors.push({ path: `${path}.type`, code: 'required' })
+    return
+  }
+  checkNumber(errors, `${path}.x`, element.x, [-Infinity, Infinity], true)
+  checkNumber(errors, `${path}.y`, element.y, [-Infinity, Infinity], true)
+  checkNumber(errors, `${path}.angle`, element.angle, [-Infinity, Infinity])
+  checkNumber(errors, `${path}.strokeWidth`, element.strokeWidth, [0, Infinity])
+  checkNumber(errors, `${path}.opacity`, element.opacity, [0, 100])
+  switch (element.type) {
+    case 'rectangle':
+    case 'ellipse':
+      checkNumber(errors, `${path}.width`, element.width, [0, Infinity], true)
+      checkNumber(errors, `${path}.height`, element.height, [0, Infinity], true)
+      break
+    case 'line':
+    case 'arrow':
+    case 'freedraw':
+      if (!(Array.isArray(element.points) && element.points.every(isPoint))) {
+        errors.push({
+          path: `${path}.points`,
+          code: 'type',
+          params: { expected: 'number[][]' }
+        })
+      }
+      break
+    case 'text':
+      if (element.text !== undefined && typeof element.text !== 'string') {
+        errors.push({
+          path: `${path}.text`,
+          code: 'type',
+          params: { expected: 'string' }
+        })
+      }
+      checkNumber(
+        errors,
+        `${path}.fontSize`,
+        element.fontSize,
+        [Number.MIN_VALUE, Infinity],
+        true
+      )
+      break
+  }
+}
+
+/**
+ * Validate an imported excalidraw scene before it is converted
+ * @param json scene, its type is excalidraw
+ * @returns scene errors and the elements that can be skipped
+ */
+export const validateExcalidrawScene = (json: unknown): IValidationResult => {
+  const result: IValidationResult = {
+    errors: [],
+    objectErrors: [],
+    invalidObjects: []
+  }
+  if (!isObject(json) || !Array.isArray(json.elements)) {
+    result.errors.push({
+      path: 'elements',
+      code: 'type',
+      params: { expected: 'array' }
+    })
+    return result
+  }
+  if (json.appState !== undefined && !isObject(json.appState)) {
+    result.errors.push({
+      path: 'appState',
+      code: 'type',
+      params: { expected: 'object' }
+    })
+  }
+  json.elements.forEach((element: unknown, index: number) => {
+    // deleted elements are left out anyway
+    if (isObject(element) && element.isDeleted) {
+      return
+    }
+    const elementErrors: IValidationError[] = []
+    validateExcalidrawElement(element, `elements[${index}]`, elementErrors)
+    if (elementErrors.length) {
+      result.objectErrors.push(...elementErrors)
+      result.invalidObjects.push(index)
+    }
+  })
+  return result
+}
+
+/**
+ * Drop the elements that failed validation
+ * @param scene validated scene
+ * @param result validateExcalidrawScene result
+ */
+export const removeInvalidElements = (
+  scene: IExcalidrawScene,
+  result: IValidationResult
+): IExcalidrawScene => {
+  if (!result.invalidObjects.length) {
+    return scene
+  }
+  return {
+    ...scene,
+    elements: scene.elements.filter(
+      (_, index) => !result.invalidObjects.includes(index)
+    )
+  }
+}
@@ -2,42 +2,75 @@ import { fabric } from 'fabric'
 import { paintBoard } from '../paintBoard'
 import { setObjectAttr } from '../common/draw'
 import { ELEMENT_CUSTOM_TYPE } from '@/constants'
+import { SvgElement, isSvgFile } from './svg'
+import { saveAsset } from '../common/assets'
 
 export class ImageElement {
   image: fabric.Image | null = null
 
-  addImage(data: string) {
+  /**
+   * @param data image url
+   * @param point world-space center, defaults to the viewport center
+   */
+  addImage(data: string, point?: fabric.Point) {
     const canvas = paintBoard.canvas
     if (!canvas) {
       return
     }
-    fabric.Image.fromURL(
-      data,
-      (img) => {
-        const viewportCenter = canvas.getVpCenter()
+    saveAsset(data).then((url) => {
+      fabric.Image.fromURL(
+        url,
+        (img) => {
+          const viewportCenter = point ?? canvas.getVpCenter()
 
-        // get scaling
-        const scaleX = canvas.getWidth() / 2 / (img?.width || 1)
-        const scaleY = canvas.getHeight() / 2 / (img?.height || 1)
-        const scale = Math.min(scaleX, scaleY, 1) // Make sure the image is not larger than the original size
+          // get scaling
+          const scaleX = canvas.getWidth() / 2 / (img?.width || 1)
+          const scaleY = canvas.getHeight() / 2 / (img?.height || 1)
+          const scale = Math.min(scaleX, scaleY, 1) // Make sure the image is not larger than the original size
 
-        img.scale(scale)
+          img.scale(scale)
 
-        // set image position
-        img.set({
-          left: viewportCenter.x - img.getScaledWidth() / 2,
-          top: viewportCenter.y - img.getScaledHeight() / 2
-        })
+          // set image position
+          img.set({
+            left: viewportCenter.x - img.getScaledWidth() / 2,
+            top: viewportCenter.y - img.getScaledHeight() / 2
+          })
+
+          setObjectAttr(img, ELEMENT_CUSTOM_TYPE.IMAGE)
 
-        setObjectAttr(img, ELEMENT_CUSTOM_TYPE.IMAGE)
+          canvas.add(img)
+          paintBoard.render({ key: 'history.image' })
+        },
+        {
+          crossOrigin: 'anonymous'
+        }
+      )
+    })
+  }
+}
 
-        canvas.add(img)
-        paintBoard.render()
-      },
-      {
-        crossOrigin: 'anonymous'
+/**
+ * Add an image file to the canvas, svg files are imported as editable vector objects
+ * @param file image file
+ * @param point world-space center, defaults to the viewport center
+ */
+export function addImageFile(file: File, point?: fabric.Point) {
+  const reader = new FileReader()
+  const isSvg = isSvgFile(file)
+  reader.onload = (fEvent) => {
+    const data = fEvent.target?.result
+    if (data && typeof data === 'string') {
+      if (isSvg) {
+        new SvgElement().addSvg(data, point)
+      } else {
+        new ImageElement().addImage(data, point)
       }
-    )
+    }
+  }
+  if (isSvg) {
+    reader.readAsText(file)
+  } else {
+    reader.readAsDataURL(file)
   }
 }
 
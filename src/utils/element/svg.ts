@@ -0,0 +1,101 @@
+import { fabric } from 'fabric'
+import { paintBoard } from '../paintBoard'
+import { setObjectAttr } from '../common/draw'
+import { ELEMENT_CUSTOM_TYPE } from '@/constants'
+
+type SvgColorAttr = 'stroke' | 'fill'
+
+export class SvgElement {
+  /**
+   * Parse svg markup into editable vector objects
+   * @param svg svg markup
+   * @param point world-space center, defaults to the viewport center
+   */
+  addSvg(svg: string, point?: fabric.Point) {
+    const canvas = paintBoard.canvas
+    if (!canvas) {
+      return
+    }
+    fabric.loadSVGFromString(svg, (objects, options) => {
+      if (!objects?.length) {
+        return
+      }
+      const svgObject = fabric.util.groupSVGElements(objects, options)
+      const center = point ?? canvas.getVpCenter()
+
+      // get scaling
+      const scaleX = canvas.getWidth() / 2 / (svgObject?.width || 1)
+      const scaleY = canvas.getHeight() / 2 / (svgObject?.height || 1)
+      const scale = Math.min(scaleX, scaleY, 1)
+
+      svgObject.scale(scale)
+      svgObject.set({
+        left: center.x - svgObject.getScaledWidth() / 2,
+        top: center.y - svgObject.getScaledHeight() / 2,
+        perPixelTargetFind: true
+      })
+
+      setObjectAttr(svgObject, ELEMENT_CUSTOM_TYPE.SVG)
+
+      canvas.add(svgObject)
+      paintBoard.render()
+    })
+  }
+}
+
+/**
+ * svg file check
+ */
+export const isSvgFile = (file: File) => {
+  return file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)
+}
+
+/**
+ * Child objects of an imported svg, a single-path svg is not grouped
+ */
+const getSvgChildren = (obj: fabric.Object) => {
+  return obj instanceof fabric.Group ? obj.getObjects() : [obj]
+}
+
+/**
+ * Whether the child draws this color, 'none' or empty means the svg left it unpainted
+ */
+const hasColor = (obj: fabric.Object, attr: SvgColorAttr) => {
+  const color = obj[attr]
+  return !!color && color !== 'none'
+}
+
+/**
+ * Get an attribute of the first svg child that paints the related color
+ * @param obj imported svg object
+ * @param attr fill or a stroke attribute
+ */
+export const getSvgAttr = (
+  obj: fabric.Object,
+  attr: SvgColorAttr | 'strokeWidth' | 'strokeDashArray'
+) => {
+  const colorAttr = attr === 'fill' ? 'fill' : 'stroke'
+  return getSvgChildren(obj).find((child) => hasColor(child, colorAttr))?.[attr]
+}
+
+/**
+ * Update svg children attributes
+ * Colors are only applied to the children that already paint them, so unpainted parts stay unpainted
+ * @param obj imported svg object
+ * @param attrs fabric object attributes
+ */
+export const setSvgAttr = (
+  obj: fabric.Object,
+  attrs: Partial<fabric.IObjectOptions>
+) => {
+  getSvgChildren(obj).forEach((child) => {
+    const childAttrs = { ...attrs }
+    ;(['stroke', 'fill'] as SvgColorAttr[]).forEach((attr) => {
+      if (attr in childAttrs && !hasColor(child, attr)) {
+        delete childAttrs[attr]
+      }
+    })
+    child.set(childAttrs)
+  })
+  obj.set({ dirty: true })
+}
@@ -5,6 +5,7 @@ import { ShapeStyle } from '@/constants/shape'
 import { IInk } from '@/services/autodraw'
 import { paintBoard } from '../paintBoard'
 import { autoDrawData } from '../autodraw'
+import { commentBoard } from '../comments'
 
 import { ReticulateElement } from '../element/draw/reticulate'
 import { ShapeElement } from '../element/draw/shape'
@@ -40,6 +41,7 @@ import { ArrowLineShape } from '../element/shape/arrowLine'
 import useDrawStore from '@/store/draw'
 import useBoardStore from '@/store/board'
 import useShapeStore from '@/store/shape'
+import { snapPoint } from '../grid'
 
 export let updateInkHook: ((ink: IInk[]) => void) | null = null
 
@@ -94,71 +96,78 @@ export class CanvasClickEvent {
       if (this.isSpaceKeyDown) {
         return
       }
-      this.startPoint = e.absolutePointer
+      this.startPoint = this.getDrawPoint(e.absolutePointer)
       let currentElement = null
 
+      if (
+        useBoardStore.getState().mode === ActionMode.COMMENT &&
+        e.absolutePointer
+      ) {
+        commentBoard.startDraft(e.absolutePointer, e.target)
+      }
+
       if (useBoardStore.getState().mode === ActionMode.DRAW) {
         if (useBoardStore.getState().drawType === DrawType.Shape) {
           switch (useShapeStore.getState().shapeStyle) {
             case ShapeStyle.Rect:
-              currentElement = new RectShape(e.absolutePointer)
+              currentElement = new RectShape(this.startPoint)
               break
             case ShapeStyle.Circle:
-              currentElement = new CircleShape(e.absolutePointer)
+              currentElement = new CircleShape(this.startPoint)
               break
             case ShapeStyle.Line:
-              currentElement = new LineShape(e.absolutePointer)
+              currentElement = new LineShape(this.startPoint)
               break
             case ShapeStyle.Ellipse:
-              currentElement = new EllipseShape(e.absolutePointer)
+              currentElement = new EllipseShape(this.startPoint)
               break
             case ShapeStyle.Triangle:
-              currentElement = new TriangleShape(e.absolutePointer)
+              currentElement = new TriangleShape(this.startPoint)
               break
             case ShapeStyle.ArrowLine:
-              currentElement = new ArrowLineShape(e.absolutePointer)
+              currentElement = new ArrowLineShape(this.startPoint)
               break
             case ShapeStyle.ArrowOutline:
-              currentElement = new ArrowOutlineShape(e.absolutePointer)
+              currentElement = new ArrowOutlineShape(this.startPoint)
               break
             case ShapeStyle.Cloud:
-              currentElement = new CloudShape(e.absolutePointer)
+              currentElement = new CloudShape(this.startPoint)
               break
             case ShapeStyle.Tooltips:
-              currentElement = new TooltipsShape(e.absolutePointer)
+              currentElement = new TooltipsShape(this.startPoint)
               break
             case ShapeStyle.Lightning:
-              currentElement = new LightningShape(e.absolutePointer)
+              currentElement = new LightningShape(this.startPoint)
               break
             case ShapeStyle.Close:
-              currentElement = new CloseShape(e.absolutePointer)
+              currentElement = new CloseShape(this.startPoint)
               break
             case ShapeStyle.Check:
-              currentElement = new CheckShap(e.absolutePointer)
+              currentElement = new CheckShap(this.startPoint)
               break
             case ShapeStyle.Info:
-              currentElement = new InfoShape(e.absolutePointer)
+              currentElement = new InfoShape(this.startPoint)
               break
             case ShapeStyle.Backspace:
-              currentElement = new BackspaceShape(e.absolutePointer)
+              currentElement = new BackspaceShape(this.startPoint)
               break
             case ShapeStyle.Block:
-              currentElement = new BlockShap(e.absolutePointer)
+              currentElement = new BlockShap(this.startPoint)
               break
             case ShapeStyle.Speaker:
-              currentElement = new SpeakerShape(e.absolutePointer)
+              currentElement = new SpeakerShape(this.startPoint)
               break
             case ShapeStyle.Search:
-              currentElement = new SearchShape(e.absolutePointer)
+              currentElement = new SearchShape(this.startPoint)
               break
             case ShapeStyle.InfoOutline:
-              currentElement = new InfoOutlineShape(e.absolutePointer)
+              currentElement = new InfoOutlineShape(this.startPoint)
               break
             case ShapeStyle.Heart:
-              currentElement = new HeartShape(e.absolutePointer)
+              currentElement = new HeartShape(this.startPoint)
               break
             case ShapeStyle.Alert:
-              currentElement = new AlertShape(e.absolutePointer)
+              currentElement = new AlertShape(this.startPoint)
               break
             default:
               break
@@ -232,7 +241,7 @@ export class CanvasClickEvent {
           useBoardStore.getState().mode === ActionMode.DRAW &&
           this.currentElement
         ) {
-          this.currentElement.addPosition(e.absolutePointer)
+          this.currentElement.addPosition(this.getDrawPoint(e.absolutePointer))
         }
       }
     })
@@ -247,9 +256,10 @@ export class CanvasClickEvent {
 
       if (this.currentElement) {
         let isDestroy = false
-        if (this.startPoint && e.absolutePointer) {
+        const endPoint = this.getDrawPoint(e.absolutePointer)
+        if (this.startPoint && endPoint) {
           const { x: startX, y: startY } = this.startPoint
-          const { x: endX, y: endY } = e.absolutePointer
+          const { x: endX, y: endY } = endPoint
           if (startX === endX && startY === endY) {
             this.currentElement.destroy()
             isDestroy = true
@@ -262,7 +272,7 @@ export class CanvasClickEvent {
           ) {
             this.currentElement?.mouseUp()
           }
-          paintBoard.history?.saveState()
+          paintBoard.history?.saveState({ key: 'history.drawShape' })
         }
         this.currentElement = null
       }
@@ -276,6 +286,16 @@ export class CanvasClickEvent {
     })
   }
 
+  /**
+   * Pointer of a shape being drawn snaps to the grid, free drawing doesn't
+   */
+  getDrawPoint(point: fabric.Point | undefined) {
+    const { mode, drawType } = useBoardStore.getState()
+    return mode === ActionMode.DRAW && drawType === DrawType.Shape
+      ? snapPoint(point)
+      : point
+  }
+
   setSpaceKeyDownState(isSpaceKeyDown: boolean) {
     this.isSpaceKeyDown = isSpaceKeyDown
   }
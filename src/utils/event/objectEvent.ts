@@ -7,6 +7,15 @@ import useDrawStore from '@/store/draw'
 import { DrawStyle, DrawType } from '@/constants/draw'
 import { autoDrawData } from '../autodraw'
 
+// history step labels of the transform actions
+const modifyActionLabels: Record<string, string> = {
+  drag: 'history.move',
+  scale: 'history.scale',
+  scaleX: 'history.scale',
+  scaleY: 'history.scale',
+  rotate: 'history.rotate'
+}
+
 export class ObjectEvent {
   constructor() {
     this.initObjectEvent()
@@ -50,7 +59,11 @@ export class ObjectEvent {
         }
 
         // Save fabric brush and fabric eraser operation state
-        paintBoard.history?.saveState()
+        paintBoard.history?.saveState(
+          mode === ActionMode.DRAW
+            ? { key: 'history.draw', style: useDrawStore.getState().drawStyle }
+            : { key: 'history.erase' }
+        )
       }
     })
     canvas?.on('object:modified', (e) => {
@@ -63,7 +76,12 @@ export class ObjectEvent {
       }
       // Usually operations that change the object such as dragging and zooming, record the operation
       if (e.action && e.target) {
-        paintBoard.history?.saveState()
+        const count =
+          e.target.type === 'activeSelection'
+            ? (e.target as fabric.ActiveSelection).size()
+            : 1
+        const key = modifyActionLabels[e.action]
+        paintBoard.history?.saveState(key ? { key, count } : undefined)
       }
     })
   }
@@ -3,7 +3,6 @@ import { fabric } from 'fabric'
 import { MAX_ZOOM, MIN_ZOOM } from './zoomEvent'
 import { debounce } from 'lodash'
 import { brushMouseMixin } from '../common/fabricMixin/brushMouse'
-import useFileStore from '@/store/files'
 import useBoardStore from '@/store/board'
 
 export class CanvasTouchEvent {
@@ -93,7 +92,7 @@ export class CanvasTouchEvent {
         })
       }
       canvas.zoomToPoint(new fabric.Point(this.startX, this.startY), zoom)
-      paintBoard.evnet?.zoomEvent.updateZoomPercentage(true, zoom)
+      paintBoard.evnet?.zoomEvent.updateZoomPercentage(true)
 
       // Calculate drag distance
       const currentPan = new fabric.Point(x - this.startX, y - this.startY)
@@ -127,9 +126,8 @@ export class CanvasTouchEvent {
   }
 
   saveTransform = debounce(() => {
-    const transform = paintBoard.canvas?.viewportTransform
-    if (transform) {
-      useFileStore.getState().updateTransform(transform)
+    if (paintBoard.canvas) {
+      paintBoard.saveView()
       if (!useBoardStore.getState().isObjectCaching) {
         fabric.Object.prototype.set({
           objectCaching: false
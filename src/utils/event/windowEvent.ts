@@ -1,10 +1,17 @@
 import { KeyCode } from '@/constants/event'
 import { paintBoard } from '../paintBoard'
-import { ImageElement } from '../element/image'
+import { addImageFile } from '../element/image'
+import { SvgElement, isSvgFile } from '../element/svg'
+import {
+  clientToWorldPoint,
+  getViewCenter,
+  setViewCenter
+} from '../common/bounds'
 import { fabric } from 'fabric'
-import useFileStore from '@/store/files'
 import useBoardStore from '@/store/board'
 import { handleBackgroundImageWhenCanvasSizeChange } from '../common/background'
+import { flushHistoryRecord } from '../history'
+import { timelapseRecorder } from '../timelapse'
 
 export class WindowEvent {
   constructor() {
@@ -15,20 +22,61 @@ export class WindowEvent {
     window.addEventListener('keydown', this.keydownFn)
     window.addEventListener('keyup', this.keyupFn)
     window.addEventListener('paste', this.pasteFn)
+    window.addEventListener('dragover', this.dragoverFn)
+    window.addEventListener('drop', this.dropFn)
     window.addEventListener('resize', this.resizeFn)
     window.addEventListener('orientationchange', this.resizeFn)
+    window.addEventListener('pagehide', this.pagehideFn)
+    document.addEventListener('visibilitychange', this.visibilitychangeFn)
   }
 
   removeWindowEvent() {
     window.removeEventListener('keydown', this.keydownFn)
     window.removeEventListener('keyup', this.keyupFn)
     window.removeEventListener('paste', this.pasteFn)
+    window.removeEventListener('dragover', this.dragoverFn)
+    window.removeEventListener('drop', this.dropFn)
     window.removeEventListener('resize', this.resizeFn)
     window.removeEventListener('orientationchange', this.resizeFn)
+    window.removeEventListener('pagehide', this.pagehideFn)
+    document.removeEventListener('visibilitychange', this.visibilitychangeFn)
+  }
+
+  /**
+   * Save the debounced records before the page goes away
+   */
+  pagehideFn() {
+    flushHistoryRecord()
+    timelapseRecorder.flush()
+  }
+
+  visibilitychangeFn() {
+    if (document.visibilityState === 'hidden') {
+      flushHistoryRecord()
+      timelapseRecorder.flush()
+    }
   }
 
   keydownFn(e: KeyboardEvent) {
     const canvas = paintBoard?.canvas
+    // Shift + 0 / 1 / 2: zoom to 100%, fit all objects, fit the selection
+    const target = e.target as HTMLElement | null
+    if (e.shiftKey && !target?.closest?.('input, textarea')) {
+      const zoomEvent = paintBoard.evnet?.zoomEvent
+      switch (e.code) {
+        case KeyCode.DIGIT_0:
+          zoomEvent?.zoomTo(1)
+          return
+        case KeyCode.DIGIT_1:
+          zoomEvent?.zoomToFit()
+          return
+        case KeyCode.DIGIT_2:
+          zoomEvent?.zoomToSelection()
+          return
+        default:
+          break
+      }
+    }
     switch (e.code) {
       case KeyCode.SPACE:
         /**
@@ -68,9 +116,8 @@ export class WindowEvent {
         paintBoard.canvas.defaultCursor = 'default'
       }
 
-      const transform = paintBoard.canvas?.viewportTransform
-      if (transform) {
-        useFileStore.getState().updateTransform(transform)
+      if (paintBoard.canvas) {
+        paintBoard.saveView()
         if (!useBoardStore.getState().isObjectCaching) {
           fabric.Object.prototype.set({
             objectCaching: false
@@ -93,28 +140,56 @@ export class WindowEvent {
       if (item) {
         const blob = item.getAsFile()
         if (blob) {
-          const reader = new FileReader()
-          reader.onload = (event) => {
-            const data = event.target?.result
-            if (data && typeof data === 'string') {
-              const image = new ImageElement()
-              image.addImage(data)
-            }
-          }
-
-          reader.readAsDataURL(blob)
+          addImageFile(blob)
         }
+        return
+      }
+
+      /**
+       * Paste svg markup copied as text
+       */
+      const text = e.clipboardData.getData('text/plain')?.trim()
+      if (
+        /^(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(text) &&
+        !paintBoard.textElement.isTextEditing
+      ) {
+        new SvgElement().addSvg(text)
       }
     }
   }
 
+  dragoverFn(e: DragEvent) {
+    if (e.dataTransfer?.types.includes('Files')) {
+      e.preventDefault()
+    }
+  }
+
+  /**
+   * Drop image and svg files at the pointer position
+   */
+  dropFn(e: DragEvent) {
+    const canvas = paintBoard.canvas
+    const files = Array.from(e.dataTransfer?.files ?? []).filter(
+      (file) => file.type.startsWith('image/') || isSvgFile(file)
+    )
+    if (!canvas || !files.length) {
+      return
+    }
+    e.preventDefault()
+    const point = clientToWorldPoint(canvas, e.clientX, e.clientY)
+    files.forEach((file) => {
+      addImageFile(file, point)
+    })
+  }
+
   resizeFn() {
     const canvas = paintBoard.canvas
     if (canvas) {
-      canvas.setWidth(window.innerWidth * useBoardStore.getState().canvasWidth)
-      canvas.setHeight(
-        window.innerHeight * useBoardStore.getState().canvasHeight
-      )
+      // the canvas fills the window, keep the same world point at its center
+      const center = getViewCenter(canvas)
+      canvas.setWidth(window.innerWidth)
+      canvas.setHeight(window.innerHeight)
+      setViewCenter(canvas, center)
       handleBackgroundImageWhenCanvasSizeChange()
     }
   }
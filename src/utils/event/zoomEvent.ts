@@ -5,14 +5,26 @@ import { ActionMode } from '@/constants'
 import { DrawStyle } from '@/constants/draw'
 import { getDrawWidth, getEraserWidth, getShadowWidth } from '../common/draw'
 import useDrawStore from '@/store/draw'
-import useFileStore from '@/store/files'
 import { debounce } from 'lodash'
+import {
+  IBounds,
+  getObjectsBounds,
+  getViewCenter,
+  setViewCenter
+} from '../common/bounds'
 
 let zoomHook: (zoom: number) => undefined
-export const MIN_ZOOM = 0.3
-export const MAX_ZOOM = 5
+export const MIN_ZOOM = 0.01
+export const MAX_ZOOM = 50
+export const ZOOM_PRESETS = [0.5, 1, 2]
+const WHEEL_STEP = 1.1
+const PINCH_SPEED = 0.01
+const FIT_PADDING = 0.05 // share of the view kept free around fitted objects
+const ANIMATION_DURATION = 300
 
 export class CanvasZoomEvent {
+  cancelAnimation: (() => void) | null = null // stops the running view animation
+
   constructor() {
     this.initWheelEvent()
   }
@@ -23,15 +35,16 @@ export class CanvasZoomEvent {
       // Clear the current text input box
       paintBoard.textElement?.resetText()
 
-      const delta = options.e.deltaY // Get the direction in which the wheel scrolls
-
-      // Adjust the zoom ratio according to the direction of the scroll wheel
+      const e = options.e
       let zoom = canvas.getZoom()
-      zoom = delta > 0 ? zoom * 1.1 : zoom / 1.1
-
-      if (zoom < MIN_ZOOM || zoom > MAX_ZOOM) {
-        return
+      if (e.ctrlKey) {
+        // trackpad pinch arrives as ctrl + wheel with small deltas, spreading the fingers zooms in
+        zoom = zoom * Math.exp(-e.deltaY * PINCH_SPEED)
+      } else {
+        // Adjust the zoom ratio according to the direction of the scroll wheel
+        zoom = e.deltaY > 0 ? zoom * WHEEL_STEP : zoom / WHEEL_STEP
       }
+      zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
 
       if (!useBoardStore.getState().isObjectCaching) {
         fabric.Object.prototype.set({
@@ -39,14 +52,13 @@ export class CanvasZoomEvent {
         })
       }
 
-      const centerX = (canvas?.width || 1) / 2
-      const centerY = (canvas?.height || 1) / 2
-      zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
-      canvas.zoomToPoint({ x: centerX, y: centerY }, zoom)
+      // the world point under the pointer stays under it
+      this.stopAnimation()
+      canvas.zoomToPoint(canvas.getPointer(e, true), zoom)
 
-      options.e.preventDefault()
-      options.e.stopPropagation()
-      this.updateZoomPercentage(true, zoom)
+      e.preventDefault()
+      e.stopPropagation()
+      this.updateZoomPercentage(true)
     })
   }
 
@@ -54,21 +66,104 @@ export class CanvasZoomEvent {
    * Initialize zoom to 1
    */
   initZoom() {
+    this.zoomTo(1)
+  }
+
+  /**
+   * Zoom around the center of the view, e.g. a preset level
+   */
+  zoomTo(zoom: number) {
     const canvas = paintBoard.canvas
     if (canvas) {
-      const canvasWidth = (canvas?.width || 1) / 2
-      const canvasHeight = (canvas?.height || 1) / 2
-      canvas.zoomToPoint(new fabric.Point(canvasWidth, canvasHeight), 1)
-      this.updateZoomPercentage(true, 1)
+      this.animateView(getViewCenter(canvas), zoom)
     }
   }
 
+  /**
+   * Fit all objects into the view
+   */
+  zoomToFit() {
+    const canvas = paintBoard.canvas
+    if (canvas) {
+      this.zoomToBounds(getObjectsBounds(canvas.getObjects()))
+    }
+  }
+
+  /**
+   * Fit the selected objects into the view
+   */
+  zoomToSelection() {
+    const canvas = paintBoard.canvas
+    if (canvas) {
+      this.zoomToBounds(getObjectsBounds(canvas.getActiveObjects()))
+    }
+  }
+
+  zoomToBounds(bounds: IBounds | null) {
+    const canvas = paintBoard.canvas
+    if (!canvas || !bounds) {
+      return
+    }
+    const zoom = Math.min(
+      (canvas.getWidth() * (1 - FIT_PADDING * 2)) / Math.max(bounds.width, 1),
+      (canvas.getHeight() * (1 - FIT_PADDING * 2)) / Math.max(bounds.height, 1)
+    )
+    this.animateView(
+      {
+        x: bounds.left + bounds.width / 2,
+        y: bounds.top + bounds.height / 2
+      },
+      zoom
+    )
+  }
+
+  /**
+   * Move the view smoothly to a world center and zoom, then save it
+   */
+  animateView(center: { x: number; y: number }, zoom: number) {
+    const canvas = paintBoard.canvas
+    if (!canvas) {
+      return
+    }
+    this.stopAnimation()
+    const startCenter = getViewCenter(canvas)
+    const startZoom = canvas.getZoom()
+    const endZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
+    // fabric returns the cancel function though its types say void
+    this.cancelAnimation = fabric.util.animate({
+      startValue: 0,
+      endValue: 1,
+      duration: ANIMATION_DURATION,
+      easing: fabric.util.ease.easeInOutQuad,
+      onChange: (progress: number) => {
+        // zoom changes by the same ratio every frame
+        setViewCenter(
+          canvas,
+          {
+            x: startCenter.x + (center.x - startCenter.x) * progress,
+            y: startCenter.y + (center.y - startCenter.y) * progress
+          },
+          startZoom * Math.pow(endZoom / startZoom, progress)
+        )
+      },
+      onComplete: () => {
+        this.cancelAnimation = null
+        this.updateZoomPercentage(true)
+      }
+    }) as unknown as () => void
+  }
+
+  stopAnimation() {
+    this.cancelAnimation?.()
+    this.cancelAnimation = null
+  }
+
   /**
    * Update current zoom percentage
    */
-  updateZoomPercentage = debounce((triggerCb = true, zoom: number) => {
+  updateZoomPercentage = debounce((triggerCb = true) => {
     const percentage = this.handleZoomPercentage(triggerCb)
-    useFileStore.getState().updateZoom(zoom)
+    paintBoard.saveView()
     if (!useBoardStore.getState().isObjectCaching) {
       fabric.Object.prototype.set({
         objectCaching: false
@@ -82,9 +177,10 @@ export class CanvasZoomEvent {
     const canvas = paintBoard.canvas
     let percentage = 1
     if (canvas) {
+      // log scale, each step of the wheel moves it by the same amount
       const curZoom = canvas.getZoom()
       percentage = Math.round(
-        ((curZoom - MIN_ZOOM) / (MAX_ZOOM - MIN_ZOOM)) * 100
+        (Math.log(curZoom / MIN_ZOOM) / Math.log(MAX_ZOOM / MIN_ZOOM)) * 100
       )
       handleWidth()
     }
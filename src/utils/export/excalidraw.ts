@@ -0,0 +1,477 @@
+import { fabric } from 'fabric'
+import { v4 as uuidv4 } from 'uuid'
+import { ELEMENT_CUSTOM_TYPE } from '@/constants'
+import { ShapeBorderType } from '@/constants/shape'
+import { downloadFile } from '../common'
+import { setObjectAttr } from '../common/draw'
+import { CANVAS_JSON_PROPERTIES, loadStaticCanvas } from '../common/loadCanvas'
+import { calculateArrowSlidePath } from '../element/shape/utils/arrowLine'
+import { BOARD_VERSION, IBoardData, IFile } from '@/store/files'
+
+export const EXCALIDRAW_TYPE = 'excalidraw'
+export const EXCALIDRAW_VERSION = 2
+
+// excalidraw renders freedraw strokes about 4.25 times wider than strokeWidth
+const FREEDRAW_WIDTH_RATIO = 4.25
+
+// excalidraw font family ids
+const EXCALIDRAW_FONTS: Record<number, string> = {
+  1: 'Virgil, Segoe UI Emoji',
+  2: 'Helvetica, Segoe UI Emoji',
+  3: 'Cascadia, Segoe UI Emoji'
+}
+
+interface IExcalidrawElement {
+  id: string
+  type: string // rectangle | ellipse | line | arrow | freedraw | text | ...
+  x: number
+  y: number
+  width: number
+  height: number
+  angle: number // radians, around the element center
+  strokeColor: string
+  backgroundColor: string
+  fillStyle: string
+  strokeWidth: number
+  strokeStyle: string // solid | dashed | dotted
+  opacity: number // 0 - 100
+  isDeleted?: boolean
+  points?: number[][] // line, arrow and freedraw points, relative to x and y
+  startArrowhead?: string | null
+  endArrowhead?: string | null
+  text?: string
+  fontSize?: number
+  fontFamily?: number
+  [key: string]: unknown
+}
+
+type PathCommand = [string, ...number[]]
+
+const getPathCommands = (path: fabric.Path) => {
+  return (path.path ?? []) as unknown as PathCommand[]
+}
+
+export interface IExcalidrawScene {
+  type: string // EXCALIDRAW_TYPE
+  version: number
+  source: string
+  elements: IExcalidrawElement[]
+  appState: {
+    viewBackgroundColor?: string
+    [key: string]: unknown
+  }
+  files: Record<string, unknown>
+}
+
+/**
+ * The shape of the scene is checked by validateExcalidrawScene
+ */
+export const isExcalidrawScene = (json: unknown): json is IExcalidrawScene => {
+  return (json as IExcalidrawScene)?.type === EXCALIDRAW_TYPE
+}
+
+/**
+ * Points of a polyline or path in board coordinates
+ */
+const getWorldPoints = (
+  obj: fabric.Object,
+  points: { x: number; y: number }[],
+  pathOffset: fabric.Point
+) => {
+  const matrix = obj.calcTransformMatrix()
+  return points.map((point) =>
+    fabric.util.transformPoint(
+      new fabric.Point(point.x - pathOffset.x, point.y - pathOffset.y),
+      matrix
+    )
+  )
+}
+
+const getStrokeStyle = (strokeDashArray?: number[] | null) => {
+  if (!strokeDashArray?.length) {
+    return ShapeBorderType.Solid
+  }
+  return strokeDashArray[0] > strokeDashArray[1]
+    ? ShapeBorderType.Dashed
+    : ShapeBorderType.Dotted
+}
+
+const getStrokeDashArray = (strokeStyle: string, base: number) => {
+  const value = Math.round(base)
+  switch (strokeStyle) {
+    case ShapeBorderType.Dashed:
+      return [value * 3, value * 2]
+    case ShapeBorderType.Dotted:
+      return [value, value * 3]
+    default:
+      return undefined
+  }
+}
+
+const getColor = (color: fabric.Object['fill']) => {
+  return typeof color === 'string' && color ? color : 'transparent'
+}
+
+const createElement = (
+  obj: fabric.Object,
+  type: string,
+  props: Partial<IExcalidrawElement>
+): IExcalidrawElement => {
+  return {
+    id: obj.id || uuidv4(),
+    type,
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+    angle: 0,
+    strokeColor: getColor(obj.stroke),
+    backgroundColor: 'transparent',
+    fillStyle: 'solid',
+    strokeWidth: obj.strokeWidth ?? 1,
+    strokeStyle: getStrokeStyle(obj.strokeDashArray),
+    roughness: 0,
+    opacity: Math.round((obj.opacity ?? 1) * 100),
+    groupIds: [],
+    frameId: null,
+    roundness: null,
+    seed: Math.floor(Math.random() * 2 ** 31),
+    version: 1,
+    versionNonce: 0,
+    isDeleted: false,
+    boundElements: null,
+    updated: Date.now(),
+    link: null,
+    locked: false,
+    ...props
+  }
+}
+
+/**
+ * Rect, ellipse and text keep their box and rotate around its center
+ */
+const getBoxProps = (obj: fabric.Object) => {
+  const center = obj.getCenterPoint()
+  const width = (obj.width ?? 0) * (obj.scaleX ?? 1)
+  const height = (obj.height ?? 0) * (obj.scaleY ?? 1)
+  return {
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+    angle: fabric.util.degreesToRadians(obj.angle ?? 0)
+  }
+}
+
+/**
+ * Line, arrow and freedraw points relative to the first point
+ */
+const getPointsProps = (points: fabric.Point[]) => {
+  const { x, y } = points[0]
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+    points: points.map((point) => [point.x - x, point.y - y])
+  }
+}
+
+const objectToElement = (obj: fabric.Object): IExcalidrawElement | null => {
+  switch (obj._customType) {
+    case ELEMENT_CUSTOM_TYPE.SHAPE_RECT:
+      return createElement(obj, 'rectangle', {
+        ...getBoxProps(obj),
+        backgroundColor: getColor(obj.fill),
+        roundness: { type: 3 }
+      })
+    case ELEMENT_CUSTOM_TYPE.SHAPE_ELLIPSE:
+    case ELEMENT_CUSTOM_TYPE.SHAPE_CIRCLE:
+      return createElement(obj, 'ellipse', {
+        ...getBoxProps(obj),
+        backgroundColor: getColor(obj.fill)
+      })
+    case ELEMENT_CUSTOM_TYPE.SHAPE_LINE: {
+      const line = obj as fabric.Polyline
+      return createElement(obj, 'line', {
+        ...getPointsProps(
+          getWorldPoints(line, line.points ?? [], line.pathOffset)
+        ),
+        lastCommittedPoint: null,
+        startBinding: null,
+        endBinding: null,
+        startArrowhead: null,
+        endArrowhead: null
+      })
+    }
+    case ELEMENT_CUSTOM_TYPE.SHAPE_ARROW_LINE: {
+      // the last 4 commands draw the arrow head
+      const arrow = obj as fabric.Path
+      const commands = getPathCommands(arrow)
+      const points = commands
+        .slice(0, commands.length - 4)
+        .map((command) => ({ x: command[1], y: command[2] }))
+      return createElement(obj, 'arrow', {
+        ...getPointsProps(getWorldPoints(arrow, points, arrow.pathOffset)),
+        lastCommittedPoint: null,
+        startBinding: null,
+        endBinding: null,
+        startArrowhead: null,
+        endArrowhead: 'arrow'
+      })
+    }
+  }
+
+  if (obj.type === 'i-text') {
+    const text = obj as fabric.IText
+    return createElement(obj, 'text', {
+      ...getBoxProps(obj),
+      strokeColor: getColor(text.fill),
+      strokeStyle: ShapeBorderType.Solid,
+      text: text.text,
+      originalText: text.text,
+      fontSize: (text.fontSize ?? 20) * (text.scaleY ?? 1),
+      fontFamily: 2,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      containerId: null,
+      lineHeight: text.lineHeight
+    })
+  }
+
+  // PencilBrush paths are the only paths without a custom type
+  if (obj.type === 'path' && !obj._customType) {
+    const path = obj as fabric.Path
+    const points = getPathCommands(path)
+      .filter((command) => command.length > 2)
+      .map((command) => ({
+        x: command[command.length - 2] as number,
+        y: command[command.length - 1] as number
+      }))
+    if (!points.length) {
+      return null
+    }
+    return createElement(obj, 'freedraw', {
+      ...getPointsProps(getWorldPoints(path, points, path.pathOffset)),
+      strokeWidth: (path.strokeWidth ?? 1) / FREEDRAW_WIDTH_RATIO,
+      strokeStyle: ShapeBorderType.Solid,
+      pressures: [],
+      simulatePressure: true,
+      lastCommittedPoint: null
+    })
+  }
+
+  return null
+}
+
+/**
+ * Convert a paint board file to an excalidraw scene
+ * Objects without an excalidraw counterpart are left out.
+ */
+export const fileToExcalidraw = async (file: IFile) => {
+  const canvas = await loadStaticCanvas(file)
+  const elements = canvas
+    .getObjects()
+    .map(objectToElement)
+    .filter((element): element is IExcalidrawElement => !!element)
+  const scene: IExcalidrawScene = {
+    type: EXCALIDRAW_TYPE,
+    version: EXCALIDRAW_VERSION,
+    source: window.location.origin,
+    elements,
+    appState: {
+      viewBackgroundColor: getColor(canvas.backgroundColor as string),
+      gridSize: null
+    },
+    files: {}
+  }
+  canvas.dispose()
+  return scene
+}
+
+export const exportExcalidraw = async (file: IFile) => {
+  const scene = await fileToExcalidraw(file)
+  const blob = new Blob([JSON.stringify(scene)], {
+    type: 'application/json'
+  })
+  const href = URL.createObjectURL(blob)
+  downloadFile(href, 'paint-board.excalidraw')
+  URL.revokeObjectURL(href)
+}
+
+const getShapeOptions = (element: IExcalidrawElement) => {
+  return {
+    stroke: element.strokeColor,
+    strokeWidth: element.strokeWidth,
+    strokeLineCap: 'round',
+    opacity: (element.opacity ?? 100) / 100,
+    perPixelTargetFind: true
+  }
+}
+
+const getAbsolutePoints = (element: IExcalidrawElement) => {
+  return (element.points ?? []).map(
+    ([x, y]) => new fabric.Point(element.x + x, element.y + y)
+  )
+}
+
+const elementToObject = (element: IExcalidrawElement) => {
+  switch (element.type) {
+    case 'rectangle': {
+      const rect = new fabric.Rect({
+        ...getShapeOptions(element),
+        left: element.x,
+        top: element.y,
+        width: element.width,
+        height: element.height,
+        rx: 3,
+        ry: 3,
+        fill: element.backgroundColor,
+        strokeUniform: true,
+        strokeDashArray: getStrokeDashArray(
+          element.strokeStyle,
+          element.strokeWidth
+        )
+      })
+      rect.rotate(fabric.util.radiansToDegrees(element.angle ?? 0))
+      setObjectAttr(rect, ELEMENT_CUSTOM_TYPE.SHAPE_RECT)
+      return rect
+    }
+    case 'ellipse': {
+      const ellipse = new fabric.Ellipse({
+        ...getShapeOptions(element),
+        left: element.x,
+        top: element.y,
+        rx: element.width / 2,
+        ry: element.height / 2,
+        fill: element.backgroundColor,
+        strokeUniform: true,
+        strokeDashArray: getStrokeDashArray(
+          element.strokeStyle,
+          element.strokeWidth
+        )
+      })
+      ellipse.rotate(fabric.util.radiansToDegrees(element.angle ?? 0))
+      setObjectAttr(ellipse, ELEMENT_CUSTOM_TYPE.SHAPE_ELLIPSE)
+      return ellipse
+    }
+    case 'line':
+    case 'arrow': {
+      const points = getAbsolutePoints(element)
+      if (points.length < 2) {
+        return null
+      }
+      const options = {
+        ...getShapeOptions(element),
+        originX: 'center',
+        originY: 'center',
+        strokeDashArray: getStrokeDashArray(
+          element.strokeStyle,
+          element.strokeWidth + 5
+        ),
+        fill: 'transparent',
+        objectCaching: false
+      }
+      if (
+        element.type === 'line' ||
+        !(element.startArrowhead || element.endArrowhead)
+      ) {
+        const line = new fabric.Polyline(points, options)
+        setObjectAttr(line, ELEMENT_CUSTOM_TYPE.SHAPE_LINE)
+        return line
+      }
+      // our arrow lines only have a head at the end
+      if (!element.endArrowhead) {
+        points.reverse()
+      }
+      const start = points[points.length - 2]
+      const end = points[points.length - 1]
+      const paths = calculateArrowSlidePath(
+        [
+          ...points.map((point, index) => [
+            index ? 'L' : 'M',
+            point.x,
+            point.y
+          ]),
+          ['M', 0, 0],
+          ['L', 0, 0],
+          ['M', 0, 0],
+          ['L', 0, 0]
+        ],
+        start.x,
+        start.y,
+        end.x,
+        end.y
+      )
+      const arrow = new fabric.Path(paths as unknown as fabric.Point[], options)
+      setObjectAttr(arrow, ELEMENT_CUSTOM_TYPE.SHAPE_ARROW_LINE)
+      return arrow
+    }
+    case 'freedraw': {
+      const points = getAbsolutePoints(element)
+      if (!points.length) {
+        return null
+      }
+      // smooth the points with quadratic curves like fabric.PencilBrush
+      const paths: (string | number)[][] = [['M', points[0].x, points[0].y]]
+      for (let i = 1; i < points.length - 1; i++) {
+        const midPoint = points[i].midPointFrom(points[i + 1])
+        paths.push(['Q', points[i].x, points[i].y, midPoint.x, midPoint.y])
+      }
+      const last = points[points.length - 1]
+      paths.push(['L', last.x, last.y])
+      const path = new fabric.Path(paths as unknown as fabric.Point[], {
+        ...getShapeOptions(element),
+        strokeWidth: element.strokeWidth * FREEDRAW_WIDTH_RATIO,
+        strokeLineJoin: 'round',
+        fill: null as unknown as string
+      })
+      path.set({ id: uuidv4() } as Partial<fabric.Path>)
+      return path
+    }
+    case 'text': {
+      const text = new fabric.IText(element.text ?? '', {
+        left: element.x,
+        top: element.y,
+        fill: element.strokeColor,
+        fontSize: element.fontSize,
+        fontFamily: EXCALIDRAW_FONTS[element.fontFamily ?? 1],
+        opacity: (element.opacity ?? 100) / 100
+      })
+      text.rotate(fabric.util.radiansToDegrees(element.angle ?? 0))
+      setObjectAttr(text, ELEMENT_CUSTOM_TYPE.I_TEXT)
+      return text
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Convert an excalidraw scene to a paint board file
+ * Unsupported and deleted elements are left out.
+ */
+export const excalidrawToFile = (
+  scene: IExcalidrawScene,
+  title: string
+): IFile => {
+  const objects = scene.elements
+    .filter((element) => !element.isDeleted)
+    .map(elementToObject)
+    .filter((obj): obj is fabric.Object => !!obj)
+    .map((obj) => obj.toDatalessObject(CANVAS_JSON_PROPERTIES))
+  const boardData: Partial<IBoardData> = {
+    version: fabric.version,
+    objects,
+    background: scene.appState?.viewBackgroundColor || 'rgba(255, 255, 255, 1)'
+  }
+  return {
+    id: uuidv4(),
+    title,
+    boardVersion: BOARD_VERSION,
+    boardData,
+    zoom: 1
+  }
+}
@@ -0,0 +1,172 @@
+import { paintBoard } from '../paintBoard'
+import { downloadFile } from '../common'
+import { IBounds, getObjectsBounds, getViewportBounds } from '../common/bounds'
+import { getExportPins } from '../comments'
+import { getArtboards } from '../artboards'
+
+export const ExportArea = {
+  Board: 'board', // visible board
+  Selection: 'selection', // active objects only
+  Content: 'content', // bounds of all objects
+  Region: 'region', // dragged rectangle
+  Artboards: 'artboards' // every artboard as its own image
+}
+
+export const ImageFormat = {
+  PNG: 'png',
+  JPEG: 'jpeg',
+  WEBP: 'webp'
+}
+
+export const SCREEN_DPI = 96
+
+export interface IExportImageOptions {
+  area: string // ExportArea
+  region?: IBounds // world-space rect for ExportArea.Region
+  multiplier: number // output pixels per board pixel
+  format: string // ImageFormat
+  withBackground: boolean // keep backgroundColor and backgroundImage
+  withComments: boolean // draw the pins of the open comment threads
+}
+
+const defaultOptions: IExportImageOptions = {
+  area: ExportArea.Board,
+  multiplier: 1,
+  format: ImageFormat.PNG,
+  withBackground: true,
+  withComments: false
+}
+
+/**
+ * Rasterize a world-space region of the canvas
+ * @param canvas fabric canvas
+ * @param region world-space area
+ * @param multiplier pixels per world unit
+ * @param format image format
+ * @returns data url
+ */
+export const getRegionDataURL = (
+  canvas: fabric.StaticCanvas,
+  region: IBounds,
+  multiplier = 1,
+  format = ImageFormat.PNG
+) => {
+  const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  const zoom = vpt[0]
+  return canvas.toDataURL({
+    format,
+    quality: 0.92,
+    left: region.left * zoom + vpt[4],
+    top: region.top * zoom + vpt[5],
+    width: region.width * zoom,
+    height: region.height * zoom,
+    multiplier: multiplier / zoom,
+    enableRetinaScaling: false
+  })
+}
+
+/**
+ * get the world-space area of an export
+ * @returns bounds, null if the area is empty
+ */
+export const getExportRegion = (
+  canvas: fabric.Canvas,
+  area: string,
+  region?: IBounds
+): IBounds | null => {
+  switch (area) {
+    case ExportArea.Selection:
+      return getObjectsBounds(canvas.getActiveObjects())
+    case ExportArea.Content:
+      return getObjectsBounds(canvas.getObjects())
+    case ExportArea.Region:
+      return region?.width && region?.height ? region : null
+    default:
+      return getViewportBounds(canvas)
+  }
+}
+
+/**
+ * get the images of an export, one per artboard or a single one
+ */
+const getExportImages = (
+  canvas: fabric.Canvas,
+  area: string,
+  region?: IBounds
+): Array<{ region: IBounds; name: string }> => {
+  if (area === ExportArea.Artboards) {
+    return getArtboards().map((artboard) => ({
+      region: artboard,
+      name: `paint-board-${artboard.name}`
+    }))
+  }
+  const exportRegion = getExportRegion(canvas, area, region)
+  return exportRegion ? [{ region: exportRegion, name: 'paint-board' }] : []
+}
+
+/**
+ * Export an area of the current board as an image
+ * The output resolution depends on the multiplier only, not on the current zoom.
+ * @param options IExportImageOptions
+ * @returns whether the image is exported
+ */
+export const exportImage = (options: Partial<IExportImageOptions> = {}) => {
+  const canvas = paintBoard.canvas
+  if (!canvas) {
+    return false
+  }
+  const { area, region, multiplier, format, withBackground, withComments } = {
+    ...defaultOptions,
+    ...options
+  }
+  const images = getExportImages(canvas, area, region)
+  if (!images.length) {
+    return false
+  }
+
+  // JPEG has no alpha channel, a dropped background would turn black
+  const hideBackground = !withBackground && format !== ImageFormat.JPEG
+  const backgroundColor = canvas.backgroundColor
+  const backgroundImage = canvas.backgroundImage
+  if (hideBackground) {
+    canvas.backgroundColor = ''
+    canvas.backgroundImage = undefined
+  }
+
+  // Only draw the selected objects
+  const hiddenObjects =
+    area === ExportArea.Selection
+      ? canvas
+          .getObjects()
+          .filter(
+            (obj) => obj.visible && !canvas.getActiveObjects().includes(obj)
+          )
+      : []
+  hiddenObjects.forEach((obj) => {
+    obj.visible = false
+  })
+
+  // pins are not part of the board, they are added for this export only
+  const pins = withComments ? getExportPins(canvas, multiplier) : []
+  pins.forEach((pin) => canvas.add(pin))
+
+  try {
+    images.forEach(({ region, name }) => {
+      downloadFile(
+        getRegionDataURL(canvas, region, multiplier, format),
+        `${name}.${format === ImageFormat.JPEG ? 'jpg' : format}`
+      )
+    })
+  } finally {
+    pins.forEach((pin) => canvas.remove(pin))
+    hiddenObjects.forEach((obj) => {
+      obj.visible = true
+    })
+    if (hideBackground) {
+      canvas.backgroundColor = backgroundColor
+      canvas.backgroundImage = backgroundImage
+    }
+    canvas.requestRenderAll()
+  }
+  return true
+}
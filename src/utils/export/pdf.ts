@@ -0,0 +1,159 @@
+import { fabric } from 'fabric'
+import { jsPDF } from 'jspdf'
+import 'svg2pdf.js'
+import { paintBoard } from '../paintBoard'
+import { getCanvasSVG } from './svg'
+import { getRegionDataURL } from './image'
+import { loadStaticCanvas } from '../common/loadCanvas'
+import { IBounds, getObjectsBounds, getViewportBounds } from '../common/bounds'
+import useFileStore, { IFile } from '@/store/files'
+
+export const PdfPageSize = {
+  A4: 'a4',
+  Letter: 'letter',
+  FitContent: 'fitContent',
+  Artboards: 'artboards' // a page of the exact size of each artboard
+}
+
+// page sizes in pt, portrait
+const PAGE_FORMAT: Record<string, number[]> = {
+  [PdfPageSize.A4]: [595.28, 841.89],
+  [PdfPageSize.Letter]: [612, 792]
+}
+const PAGE_MARGIN = 36 // 0.5in
+const PX_TO_PT = 0.75
+const CONTENT_PADDING = 20
+
+/**
+ * Export boards as a PDF document, one page per file or per artboard
+ * Pages are drawn as vectors through svg2pdf, boards it cannot handle fall back to a 2x raster image.
+ * @param files files to export
+ * @param pageSize PdfPageSize
+ */
+export const exportPDF = async (files: IFile[], pageSize: string) => {
+  let doc: jsPDF | null = null
+  const currentId = useFileStore.getState().currentId
+
+  for (const file of files) {
+    const isCurrent = file.id === currentId && !!paintBoard.canvas
+    const canvas = isCurrent
+      ? (paintBoard.canvas as fabric.Canvas)
+      : await loadStaticCanvas(file)
+
+    for (const region of getPageRegions(canvas, file, pageSize)) {
+      const [pageWidth, pageHeight] = getPageFormat(region, pageSize)
+      const orientation = pageWidth > pageHeight ? 'l' : 'p'
+      if (doc) {
+        doc.addPage([pageWidth, pageHeight], orientation)
+      } else {
+        doc = new jsPDF({
+          unit: 'pt',
+          format: [pageWidth, pageHeight],
+          orientation
+        })
+      }
+
+      const margin = PAGE_FORMAT[pageSize] ? PAGE_MARGIN : 0
+      const scale = Math.min(
+        (pageWidth - margin * 2) / region.width,
+        (pageHeight - margin * 2) / region.height
+      )
+      const width = region.width * scale
+      const height = region.height * scale
+      const x = (pageWidth - width) / 2
+      const y = (pageHeight - height) / 2
+
+      let isVector = !hasNonLatinText(canvas.getObjects())
+      if (isVector) {
+        try {
+          const svg = new DOMParser().parseFromString(
+            getCanvasSVG(canvas, region),
+            'image/svg+xml'
+          ).documentElement
+          await doc.svg(svg, { x, y, width, height })
+        } catch (err) {
+          console.log('pdf vector render fail', err)
+          isVector = false
+        }
+      }
+      if (!isVector) {
+        doc.addImage(
+          getRegionDataURL(canvas, region, scale * 2),
+          'PNG',
+          x,
+          y,
+          width,
+          height
+        )
+      }
+    }
+
+    if (!isCurrent) {
+      canvas.dispose()
+    }
+  }
+
+  doc?.save('paint-board.pdf')
+}
+
+/**
+ * Board areas printed on the pages of a file
+ * Files without artboards get a single page fitting their content.
+ */
+const getPageRegions = (
+  canvas: fabric.StaticCanvas,
+  file: IFile,
+  pageSize: string
+): IBounds[] => {
+  if (pageSize === PdfPageSize.Artboards) {
+    return file.artboards?.length
+      ? file.artboards
+      : [getPageRegion(canvas, PdfPageSize.FitContent)]
+  }
+  return [getPageRegion(canvas, pageSize)]
+}
+
+/**
+ * Board area printed on the page
+ * Fixed page sizes print the visible board, fit-to-content prints the bounds of all objects.
+ */
+const getPageRegion = (
+  canvas: fabric.StaticCanvas,
+  pageSize: string
+): IBounds => {
+  if (pageSize === PdfPageSize.FitContent) {
+    const bounds = getObjectsBounds(canvas.getObjects())
+    if (bounds) {
+      return {
+        left: bounds.left - CONTENT_PADDING,
+        top: bounds.top - CONTENT_PADDING,
+        width: bounds.width + CONTENT_PADDING * 2,
+        height: bounds.height + CONTENT_PADDING * 2
+      }
+    }
+  }
+  return getViewportBounds(canvas)
+}
+
+/**
+ * Page width and height in pt, rotated to follow the board orientation
+ */
+const getPageFormat = (region: IBounds, pageSize: string) => {
+  const format = PAGE_FORMAT[pageSize]
+  if (!format) {
+    return [region.width * PX_TO_PT, region.height * PX_TO_PT]
+  }
+  return region.width > region.height ? [format[1], format[0]] : format
+}
+
+/**
+ * The standard PDF fonts only cover Latin-1, so such text can't stay vector
+ */
+const hasNonLatinText = (objects: fabric.Object[]): boolean => {
+  return objects.some((obj) => {
+    if (obj instanceof fabric.Group) {
+      return hasNonLatinText(obj.getObjects())
+    }
+    return obj instanceof fabric.Text && /[^\s\x20-\xff]/.test(obj.text ?? '')
+  })
+}
@@ -0,0 +1,62 @@
+import { fabric } from 'fabric'
+import { paintBoard } from '../paintBoard'
+import { IBounds, getViewportBounds } from '../common/bounds'
+
+/**
+ * Get the board as a standalone SVG string
+ * The objects follow the viewportTransform through the SVG viewBox,
+ * the background image is drawn without it (backgroundVpt: false), so it is wrapped in the inverted transform.
+ * @param canvas fabric canvas, defaults to the current board
+ * @param region world-space area to export, defaults to the visible board
+ * @returns svg markup
+ */
+export const getCanvasSVG = (
+  canvas: fabric.StaticCanvas | null = paintBoard.canvas,
+  region?: IBounds
+) => {
+  if (!canvas) {
+    return ''
+  }
+  const viewBox = region ?? getViewportBounds(canvas)
+  const width = region ? region.width : canvas.getWidth()
+  const height = region ? region.height : canvas.getHeight()
+  const backgroundColor = canvas.backgroundColor
+  const backgroundImage = canvas.backgroundImage as fabric.Image | undefined
+
+  canvas.backgroundColor = ''
+  if (backgroundImage) {
+    backgroundImage.excludeFromExport = true
+  }
+  let svg = ''
+  try {
+    svg = canvas.toSVG({
+      width,
+      height,
+      viewBox: {
+        x: viewBox.left,
+        y: viewBox.top,
+        width: viewBox.width,
+        height: viewBox.height
+      }
+    })
+  } finally {
+    canvas.backgroundColor = backgroundColor
+    if (backgroundImage) {
+      backgroundImage.excludeFromExport = false
+    }
+  }
+
+  const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  const backgroundMarkup = [
+    typeof backgroundColor === 'string' && backgroundColor
+      ? `<rect x="${viewBox.left}" y="${viewBox.top}" width="${viewBox.width}" height="${viewBox.height}" fill="${backgroundColor}"></rect>\n`
+      : '',
+    backgroundImage
+      ? `<g transform="matrix(${fabric.util
+          .invertTransform(vpt)
+          .join(' ')})">\n${backgroundImage.toSVG()}</g>\n`
+      : ''
+  ].join('')
+
+  return svg.replace('</defs>\n', `</defs>\n${backgroundMarkup}`)
+}
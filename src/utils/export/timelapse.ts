@@ -0,0 +1,163 @@
+import { fabric } from 'fabric'
+import { GIFEncoder, applyPalette, quantize } from 'gifenc'
+import { downloadFile } from '../common'
+import { loadStaticCanvas } from '../common/loadCanvas'
+import {
+  ITimelapseFrame,
+  getFrameDelay,
+  getTimelapseFrames,
+  timelapseRecorder
+} from '../timelapse'
+import useFileStore, { IBoardData } from '@/store/files'
+
+export const TimelapseFormat = {
+  GIF: 'gif',
+  WEBM: 'webm'
+}
+
+// keep animated exports light, the board is scaled down to this width
+const MAX_EXPORT_WIDTH = 960
+const WEBM_FPS = 30
+
+const loadFrame = (canvas: fabric.StaticCanvas, data: Partial<IBoardData>) => {
+  return new Promise<void>((resolve) => {
+    canvas.loadFromJSON(data, () => {
+      if (!canvas.backgroundColor) {
+        canvas.backgroundColor = 'rgba(255, 255, 255, 1)'
+      }
+      canvas.renderAll()
+      resolve()
+    })
+  })
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+export const isWebmSupported = () => {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    MediaRecorder.isTypeSupported('video/webm')
+  )
+}
+
+/**
+ * Draw every frame of the replay onto the output canvas
+ * @param draw called after a frame is drawn with its delay in ms
+ */
+const renderFrames = async (
+  frames: ITimelapseFrame[],
+  speed: number,
+  output: HTMLCanvasElement,
+  draw: (delay: number) => Promise<void> | void,
+  onProgress?: (progress: number) => void
+) => {
+  const { files, currentId } = useFileStore.getState()
+  const file = files.find((item) => item.id === currentId)
+  if (!file) {
+    return
+  }
+  const canvas = await loadStaticCanvas({ ...file, boardData: {} })
+  const ctx = output.getContext('2d') as CanvasRenderingContext2D
+  for (let i = 0; i < frames.length; i++) {
+    await loadFrame(canvas, frames[i].data)
+    ctx.drawImage(canvas.getElement(), 0, 0, output.width, output.height)
+    const delay = getFrameDelay(frames[i], frames[i + 1])
+    // the last frame holds still whatever the speed
+    await draw(frames[i + 1] ? delay / speed : delay)
+    onProgress?.((i + 1) / frames.length)
+  }
+  canvas.dispose()
+}
+
+const createOutputCanvas = () => {
+  // frames are rendered in the view of the file on a window sized canvas
+  const width = window.innerWidth
+  const height = window.innerHeight
+  const scale = Math.min(MAX_EXPORT_WIDTH / width, 1)
+  const output = document.createElement('canvas')
+  output.width = Math.round(width * scale)
+  output.height = Math.round(height * scale)
+  return output
+}
+
+const exportGIF = async (
+  frames: ITimelapseFrame[],
+  speed: number,
+  onProgress?: (progress: number) => void
+) => {
+  const output = createOutputCanvas()
+  const ctx = output.getContext('2d', {
+    willReadFrequently: true
+  }) as CanvasRenderingContext2D
+  const gif = GIFEncoder()
+  await renderFrames(
+    frames,
+    speed,
+    output,
+    (delay) => {
+      const { data } = ctx.getImageData(0, 0, output.width, output.height)
+      const palette = quantize(data, 256)
+      gif.writeFrame(applyPalette(data, palette), output.width, output.height, {
+        palette,
+        delay
+      })
+    },
+    onProgress
+  )
+  gif.finish()
+  return new Blob([gif.bytes()], { type: 'image/gif' })
+}
+
+/**
+ * MediaRecorder captures in real time, so the export lasts as long as the replay
+ */
+const exportWebM = async (
+  frames: ITimelapseFrame[],
+  speed: number,
+  onProgress?: (progress: number) => void
+) => {
+  const output = createOutputCanvas()
+  const recorder = new MediaRecorder(output.captureStream(WEBM_FPS), {
+    mimeType: 'video/webm'
+  })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    chunks.push(e.data)
+  }
+  const stopped = new Promise((resolve) => {
+    recorder.onstop = resolve
+  })
+  recorder.start()
+  await renderFrames(frames, speed, output, (delay) => sleep(delay), onProgress)
+  recorder.stop()
+  await stopped
+  return new Blob(chunks, { type: 'video/webm' })
+}
+
+/**
+ * Export the replay of the current file as an animation
+ * @param format TimelapseFormat
+ * @param speed playback speed
+ * @param onProgress export progress from 0 to 1
+ * @returns whether the file has anything to replay
+ */
+export const exportTimelapse = async (
+  format: string,
+  speed: number,
+  onProgress?: (progress: number) => void
+) => {
+  const record = await timelapseRecorder.getRecord()
+  if (!record?.operations.length) {
+    return false
+  }
+  const frames = getTimelapseFrames(record)
+  const blob =
+    format === TimelapseFormat.WEBM
+      ? await exportWebM(frames, speed, onProgress)
+      : await exportGIF(frames, speed, onProgress)
+  const href = URL.createObjectURL(blob)
+  downloadFile(href, `paint-board-timelapse.${format}`)
+  URL.revokeObjectURL(href)
+  return true
+}
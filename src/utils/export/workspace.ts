@@ -0,0 +1,123 @@
+import { pick, pickBy } from 'lodash'
+import i18n from '@/i18n'
+import { downloadFile, readFileAsText } from '../common'
+import { inlineAssets } from '../common/assets'
+import { getFileWithData } from '../common/fileStorage'
+import { migrateFile } from '../common/migration'
+import { removeInvalidObjects, validateFile } from '../common/validate'
+import useFileStore, {
+  BOARD_VERSION,
+  IFile,
+  IImportFilesResult
+} from '@/store/files'
+import useBoardStore from '@/store/board'
+import useDrawStore from '@/store/draw'
+import useShapeStore from '@/store/shape'
+
+export const WORKSPACE_TYPE = 'paint-board-workspace'
+export const WORKSPACE_VERSION = 1
+
+/**
+ * Workspace backup bundle, saved as one JSON file
+ * Images are inlined as data urls, so the bundle is self-contained.
+ */
+export interface IWorkspace {
+  type: string // WORKSPACE_TYPE
+  version: number // bundle format version
+  boardVersion: string // paint board version that wrote the bundle
+  createdAt: number // backup timestamp
+  currentId: string // file opened when the backup was made
+  files: IFile[] // every file in the file list
+  preferences: {
+    board: Record<string, unknown> // useBoardStore state
+    draw: Record<string, unknown> // useDrawStore state
+    shape: Record<string, unknown> // useShapeStore state
+  }
+}
+
+/**
+ * Store state without actions, the same data zustand persist writes
+ */
+export const getStoreData = (state: object): Record<string, unknown> => {
+  return pickBy(
+    state as Record<string, unknown>,
+    (value) => typeof value !== 'function'
+  )
+}
+
+/**
+ * Download every file and the preferences as a workspace bundle
+ */
+export const exportWorkspace = async () => {
+  const { files, currentId } = useFileStore.getState()
+  const workspace: IWorkspace = {
+    type: WORKSPACE_TYPE,
+    version: WORKSPACE_VERSION,
+    boardVersion: BOARD_VERSION,
+    createdAt: Date.now(),
+    currentId,
+    files: await inlineAssets(await Promise.all(files.map(getFileWithData))),
+    preferences: {
+      board: getStoreData(useBoardStore.getState()),
+      draw: getStoreData(useDrawStore.getState()),
+      shape: getStoreData(useShapeStore.getState())
+    }
+  }
+  const blob = new Blob([JSON.stringify(workspace)], {
+    type: 'application/json'
+  })
+  const href = URL.createObjectURL(blob)
+  downloadFile(href, 'paint-board-workspace.json')
+  URL.revokeObjectURL(href)
+}
+
+/**
+ * Restore a workspace bundle
+ * @param file bundle file
+ * @param mode FileImportMode, how files with an existing id are handled
+ * @returns import counts, null if the bundle is invalid
+ */
+export const importWorkspace = async (
+  file: File,
+  mode: string
+): Promise<IImportFilesResult | null> => {
+  let workspace: IWorkspace
+  try {
+    workspace = JSON.parse(await readFileAsText(file))
+  } catch (err) {
+    console.log('workspace parse fail', err)
+    return null
+  }
+  if (workspace?.type !== WORKSPACE_TYPE || !Array.isArray(workspace.files)) {
+    return null
+  }
+
+  // skip broken files and objects instead of rejecting the whole backup
+  const files: IFile[] = []
+  workspace.files.forEach((item) => {
+    const validation = validateFile(item)
+    if (item?.id && !validation.errors.length) {
+      files.push(migrateFile(removeInvalidObjects(item, validation)))
+    }
+  })
+  if (!files.length) {
+    return null
+  }
+  const result = await useFileStore.getState().importFiles(files, mode)
+
+  const { board, draw, shape } = workspace.preferences ?? {}
+  const restore = (
+    store: typeof useDrawStore | typeof useShapeStore | typeof useBoardStore,
+    data?: Record<string, unknown>
+  ) => {
+    if (data) {
+      store.setState(pick(data, Object.keys(getStoreData(store.getState()))))
+    }
+  }
+  restore(useBoardStore, board)
+  restore(useDrawStore, draw)
+  restore(useShapeStore, shape)
+  i18n.changeLanguage(useBoardStore.getState().language)
+
+  return result
+}
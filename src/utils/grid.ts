@@ -0,0 +1,359 @@
+import { fabric } from 'fabric'
+import useBoardStore from '@/store/board'
+import { GridType, RULER_UNIT_SIZE } from '@/constants/grid'
+
+const GRID_COLOR = 'rgba(0, 0, 0, 0.12)'
+const MIN_LINE_SPACING = 8 // screen pixels, sparser lines are skipped when zoomed out
+const MIN_DOT_SPACING = 12
+const DOT_SIZE = 2
+export const RULER_SIZE = 20 // screen pixels
+const MIN_RULER_TICK_SPACING = 60 // screen pixels between labeled ticks
+const RULER_BACKGROUND = '#eef1ff'
+const RULER_COLOR = '#567189'
+
+/**
+ * round a world value to the nearest grid line
+ */
+export const snapValue = (value: number) => {
+  const { gridSize } = useBoardStore.getState()
+  return gridSize > 0 ? Math.round(value / gridSize) * gridSize : value
+}
+
+/**
+ * snap a world point to the grid when snapping is on
+ */
+export const snapPoint = (point: fabric.Point | undefined) => {
+  if (!point || !useBoardStore.getState().snapToGrid) {
+    return point
+  }
+  return new fabric.Point(snapValue(point.x), snapValue(point.y))
+}
+
+/**
+ * Draw the grid in world space under the objects
+ * @param ctx context in screen pixels
+ */
+const renderGrid = (canvas: fabric.Canvas, ctx: CanvasRenderingContext2D) => {
+  const { gridType, gridSize } = useBoardStore.getState()
+  if (gridType === GridType.None || gridSize <= 0) {
+    return
+  }
+  const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  const zoom = vpt[0]
+  const minSpacing =
+    gridType === GridType.Dots ? MIN_DOT_SPACING : MIN_LINE_SPACING
+  let spacing = gridSize
+  while (spacing * zoom < minSpacing) {
+    spacing *= 2
+  }
+  const width = canvas.getWidth()
+  const height = canvas.getHeight()
+  const getX = (i: number) => Math.round(i * spacing * zoom + vpt[4])
+  const getY = (i: number) => Math.round(i * spacing * zoom + vpt[5])
+  const startX = Math.floor(-vpt[4] / zoom / spacing)
+  const startY = Math.floor(-vpt[5] / zoom / spacing)
+
+  ctx.save()
+  if (gridType === GridType.Lines) {
+    ctx.strokeStyle = GRID_COLOR
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    for (let i = startX; getX(i) <= width; i++) {
+      ctx.moveTo(getX(i) + 0.5, 0)
+      ctx.lineTo(getX(i) + 0.5, height)
+    }
+    for (let i = startY; getY(i) <= height; i++) {
+      ctx.moveTo(0, getY(i) + 0.5)
+      ctx.lineTo(width, getY(i) + 0.5)
+    }
+    ctx.stroke()
+  } else {
+    ctx.fillStyle = GRID_COLOR
+    for (let i = startX; getX(i) <= width; i++) {
+      for (let j = startY; getY(j) <= height; j++) {
+        ctx.fillRect(
+          getX(i) - DOT_SIZE / 2,
+          getY(j) - DOT_SIZE / 2,
+          DOT_SIZE,
+          DOT_SIZE
+        )
+      }
+    }
+  }
+  ctx.restore()
+}
+
+/**
+ * Keep the bounding box of a moved object on the grid
+ */
+const snapMoving = (e: fabric.IEvent) => {
+  const obj = e.target
+  if (!obj || !useBoardStore.getState().snapToGrid) {
+    return
+  }
+  const rect = obj.getBoundingRect(true, true)
+  obj.set({
+    left: (obj.left ?? 0) + snapValue(rect.left) - rect.left,
+    top: (obj.top ?? 0) + snapValue(rect.top) - rect.top
+  })
+  obj.setCoords()
+}
+
+/**
+ * Resize an object so its dragged edges land on snapped values, rotated objects are left free
+ * @param snapX snaps a world x, returns it as is to leave the edge
+ * @param snapY snaps a world y
+ * @param minSize smallest snapped width and height
+ */
+export const snapResizedEdges = (
+  e: fabric.IEvent,
+  snapX: (value: number) => number,
+  snapY: (value: number) => number,
+  minSize: number
+) => {
+  const obj = e.target
+  const transform = e.transform as
+    | { originX: string; originY: string }
+    | undefined
+  if (
+    !obj ||
+    !transform ||
+    (obj.angle ?? 0) % 360 !== 0 ||
+    obj.skewX ||
+    obj.skewY
+  ) {
+    return
+  }
+  const { originX, originY } = transform
+  const anchor = obj.translateToOriginPoint(
+    obj.getCenterPoint(),
+    originX,
+    originY
+  )
+  const rect = obj.getBoundingRect(true, true)
+  // a uniform stroke keeps its width while the object scales
+  const stroke = obj.strokeUniform ? obj.strokeWidth ?? 0 : 0
+
+  const getScale = (
+    scale: number,
+    size: number,
+    start: number,
+    snap: (value: number) => number,
+    origin: string,
+    before: string,
+    after: string
+  ) => {
+    let newSize = size
+    if (origin === before) {
+      newSize = snap(start + size) - start
+    } else if (origin === after) {
+      newSize = start + size - snap(start)
+    }
+    newSize = Math.max(newSize, minSize)
+    return size > stroke
+      ? (scale * (newSize - stroke)) / (size - stroke)
+      : scale
+  }
+  obj.set({
+    scaleX: getScale(
+      obj.scaleX ?? 1,
+      rect.width,
+      rect.left,
+      snapX,
+      originX,
+      'left',
+      'right'
+    ),
+    scaleY: getScale(
+      obj.scaleY ?? 1,
+      rect.height,
+      rect.top,
+      snapY,
+      originY,
+      'top',
+      'bottom'
+    )
+  })
+  obj.setPositionByOrigin(anchor, originX, originY)
+  obj.setCoords()
+}
+
+const snapScaling = (e: fabric.IEvent) => {
+  const { snapToGrid, gridSize } = useBoardStore.getState()
+  if (snapToGrid) {
+    snapResizedEdges(e, snapValue, snapValue, gridSize)
+  }
+}
+
+/**
+ * Ticks of a ruler, labeled every 1, 2 or 5 times a power of ten units
+ * @param length ruler length in screen pixels
+ * @param zoom canvas zoom
+ * @param offset viewportTransform translation along the ruler
+ * @param unit RulerUnit
+ */
+export const getRulerTicks = (
+  length: number,
+  zoom: number,
+  offset: number,
+  unit: string
+) => {
+  const unitPixels = (RULER_UNIT_SIZE[unit] ?? 1) * zoom
+  const power = Math.pow(
+    10,
+    Math.floor(Math.log10(MIN_RULER_TICK_SPACING / unitPixels))
+  )
+  const factor =
+    [1, 2, 5, 10].find(
+      (item) => item * power * unitPixels >= MIN_RULER_TICK_SPACING
+    ) ?? 10
+  const step = factor * power // units between labels
+  const subdivisions = factor === 2 ? 4 : 5
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)))
+
+  const major: Array<{ position: number; label: string }> = []
+  const minor: number[] = []
+  const minorStep = step / subdivisions
+  const start = Math.floor(-offset / unitPixels / step) * subdivisions
+  for (let i = start; ; i++) {
+    const position = i * minorStep * unitPixels + offset
+    if (position > length) {
+      break
+    }
+    if (i % subdivisions === 0) {
+      major.push({ position, label: (i * minorStep).toFixed(decimals) })
+    } else {
+      minor.push(position)
+    }
+  }
+  return { major, minor }
+}
+
+/**
+ * Draw a ruler for the current viewport
+ * @param target ruler canvas
+ * @param vertical along the left edge
+ */
+export const renderRuler = (
+  canvas: fabric.Canvas,
+  target: HTMLCanvasElement,
+  vertical: boolean
+) => {
+  const ctx = target.getContext('2d')
+  if (!ctx) {
+    return
+  }
+  const length = vertical ? canvas.getHeight() : canvas.getWidth()
+  const ratio = window.devicePixelRatio || 1
+  const width = vertical ? RULER_SIZE : length
+  const height = vertical ? length : RULER_SIZE
+  if (target.width !== width * ratio || target.height !== height * ratio) {
+    target.width = width * ratio
+    target.height = height * ratio
+    target.style.width = `${width}px`
+    target.style.height = `${height}px`
+  }
+  const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  const { major, minor } = getRulerTicks(
+    length,
+    vpt[0],
+    vertical ? vpt[5] : vpt[4],
+    useBoardStore.getState().rulerUnit
+  )
+
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+  ctx.fillStyle = RULER_BACKGROUND
+  ctx.fillRect(0, 0, width, height)
+  ctx.strokeStyle = RULER_COLOR
+  ctx.fillStyle = RULER_COLOR
+  ctx.lineWidth = 1
+  ctx.font = '9px sans-serif'
+  ctx.textBaseline = 'top'
+
+  // ticks grow from the edge next to the canvas
+  const drawTick = (position: number, size: number) => {
+    const p = Math.round(position) + 0.5
+    if (vertical) {
+      ctx.moveTo(RULER_SIZE - size, p)
+      ctx.lineTo(RULER_SIZE, p)
+    } else {
+      ctx.moveTo(p, RULER_SIZE - size)
+      ctx.lineTo(p, RULER_SIZE)
+    }
+  }
+  ctx.beginPath()
+  minor.forEach((position) => drawTick(position, RULER_SIZE / 4))
+  major.forEach(({ position }) => drawTick(position, RULER_SIZE))
+  if (vertical) {
+    ctx.moveTo(RULER_SIZE - 0.5, 0)
+    ctx.lineTo(RULER_SIZE - 0.5, length)
+  } else {
+    ctx.moveTo(0, RULER_SIZE - 0.5)
+    ctx.lineTo(length, RULER_SIZE - 0.5)
+  }
+  ctx.stroke()
+
+  major.forEach(({ position, label }) => {
+    if (vertical) {
+      // reads top to bottom next to its tick
+      ctx.save()
+      ctx.translate(RULER_SIZE - 2, Math.round(position) + 3)
+      ctx.rotate(Math.PI / 2)
+      ctx.fillText(label, 0, 0)
+      ctx.restore()
+    } else {
+      ctx.fillText(label, Math.round(position) + 3, 2)
+    }
+  })
+}
+
+/**
+ * Grid
+ * Draws the background grid, snaps moved and resized objects to it and
+ * triggers the rulers when the viewport renders
+ */
+export class Grid {
+  hookFns: Array<() => void> = []
+
+  init(canvas: fabric.Canvas) {
+    // the grid goes over the background and under the objects, exports render
+    // into another context and leave it out
+    const board = canvas as fabric.Canvas & {
+      _renderBackground: (ctx: CanvasRenderingContext2D) => void
+    }
+    const renderBackground = board._renderBackground
+    board._renderBackground = function (ctx: CanvasRenderingContext2D) {
+      renderBackground.call(this, ctx)
+      if (ctx === canvas.getContext()) {
+        renderGrid(canvas, ctx)
+      }
+    }
+    canvas.on('object:moving', snapMoving)
+    canvas.on('object:scaling', snapScaling)
+    canvas.on('after:render', () => {
+      if (useBoardStore.getState().showRulers) {
+        this.triggerHook()
+      }
+    })
+  }
+
+  /**
+   * Add hook fn to trigger when the rulers should be redrawn
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const grid = new Grid()
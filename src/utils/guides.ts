@@ -0,0 +1,240 @@
+import { fabric } from 'fabric'
+import { v4 as uuidv4 } from 'uuid'
+import useFileStore from '@/store/files'
+import useBoardStore from '@/store/board'
+import { GuideOrientation } from '@/constants/grid'
+import { paintBoard } from './paintBoard'
+import { clientToWorldPoint } from './common/bounds'
+import { RULER_SIZE, snapResizedEdges, snapPoint } from './grid'
+
+export const GUIDE_COLOR = '#F000B8'
+const SNAP_DISTANCE = 6 // screen pixels
+
+/**
+ * Guide line dragged out of a ruler
+ */
+export interface IGuide {
+  id: string
+  orientation: string // GuideOrientation
+  position: number // world y of a horizontal guide, world x of a vertical one
+  locked: boolean // locked guides can't be dragged
+}
+
+/**
+ * Guide being dragged, a new one has no id
+ */
+export type IGuideDraft = Pick<IGuide, 'orientation' | 'position'> & {
+  id?: string
+}
+
+/**
+ * Guides of the current file
+ */
+export const getGuides = () => {
+  const { files, currentId } = useFileStore.getState()
+  return files.find((file) => file.id === currentId)?.guides ?? []
+}
+
+const getPositions = (orientation: string) =>
+  getGuides()
+    .filter((guide) => guide.orientation === orientation)
+    .map((guide) => guide.position)
+
+/**
+ * snap a world value to the nearest guide within SNAP_DISTANCE
+ */
+const snapToPositions = (value: number, positions: number[]) => {
+  const zoom = paintBoard.canvas?.getZoom() ?? 1
+  let result = value
+  let distance = SNAP_DISTANCE / zoom
+  positions.forEach((position) => {
+    if (Math.abs(position - value) < distance) {
+      distance = Math.abs(position - value)
+      result = position
+    }
+  })
+  return result
+}
+
+/**
+ * Move an object so its nearest edge or center lies on a guide
+ */
+const snapMoving = (e: fabric.IEvent) => {
+  const obj = e.target
+  const guides = getGuides()
+  if (!obj || !guides.length) {
+    return
+  }
+  const rect = obj.getBoundingRect(true, true)
+  const getOffset = (start: number, size: number, positions: number[]) => {
+    let offset = 0
+    let distance = Infinity
+    ;[start, start + size / 2, start + size].forEach((value) => {
+      const snapped = snapToPositions(value, positions)
+      if (snapped !== value && Math.abs(snapped - value) < distance) {
+        distance = Math.abs(snapped - value)
+        offset = snapped - value
+      }
+    })
+    return offset
+  }
+  obj.set({
+    left:
+      (obj.left ?? 0) +
+      getOffset(rect.left, rect.width, getPositions(GuideOrientation.Vertical)),
+    top:
+      (obj.top ?? 0) +
+      getOffset(
+        rect.top,
+        rect.height,
+        getPositions(GuideOrientation.Horizontal)
+      )
+  })
+  obj.setCoords()
+}
+
+const snapScaling = (e: fabric.IEvent) => {
+  if (!getGuides().length) {
+    return
+  }
+  const vertical = getPositions(GuideOrientation.Vertical)
+  const horizontal = getPositions(GuideOrientation.Horizontal)
+  snapResizedEdges(
+    e,
+    (value) => snapToPositions(value, vertical),
+    (value) => snapToPositions(value, horizontal),
+    0
+  )
+}
+
+/**
+ * Guides
+ * Guides live in the file next to its board data. They are shown over the
+ * canvas, so exports leave them out, and objects snap to them.
+ */
+export class Guides {
+  draft: IGuideDraft | null = null
+  hookFns: Array<() => void> = []
+
+  init(canvas: fabric.Canvas) {
+    canvas.on('object:moving', snapMoving)
+    canvas.on('object:scaling', snapScaling)
+    // guides follow the viewport
+    canvas.on('after:render', () => {
+      if (this.draft || getGuides().length) {
+        this.triggerHook()
+      }
+    })
+  }
+
+  /**
+   * Drag a new guide out of a ruler, or an existing guide
+   * Dropping it back on the ruler deletes it.
+   * @param e pointerdown event
+   * @param orientation GuideOrientation
+   * @param id guide to move
+   */
+  drag(e: PointerEvent, orientation: string, id?: string) {
+    const canvas = paintBoard.canvas
+    if (!canvas) {
+      return
+    }
+    const isHorizontal = orientation === GuideOrientation.Horizontal
+    const getPosition = (event: PointerEvent) => {
+      const point = snapPoint(
+        clientToWorldPoint(canvas, event.clientX, event.clientY)
+      ) as fabric.Point
+      return isHorizontal ? point.y : point.x
+    }
+    const isOverRuler = (event: PointerEvent) => {
+      const rect = canvas.getElement().getBoundingClientRect()
+      return (
+        useBoardStore.getState().showRulers &&
+        (isHorizontal
+          ? event.clientY < rect.top + RULER_SIZE
+          : event.clientX < rect.left + RULER_SIZE)
+      )
+    }
+
+    this.draft = { id, orientation, position: getPosition(e) }
+    this.triggerHook()
+
+    const onMove = (event: PointerEvent) => {
+      if (this.draft) {
+        this.draft.position = getPosition(event)
+        this.triggerHook()
+      }
+    }
+    const onUp = (event: PointerEvent) => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+      window.removeEventListener('pointercancel', onUp)
+      const draft = this.draft
+      this.draft = null
+      if (draft && event.type === 'pointerup') {
+        if (isOverRuler(event)) {
+          if (draft.id) {
+            this.deleteGuide(draft.id)
+          }
+        } else if (draft.id) {
+          this.updateGuide(draft.id, { position: draft.position })
+        } else {
+          this.addGuide(draft.orientation, draft.position)
+        }
+      }
+      this.triggerHook()
+    }
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+    window.addEventListener('pointercancel', onUp)
+  }
+
+  addGuide(orientation: string, position: number) {
+    useFileStore
+      .getState()
+      .updateGuides([
+        ...getGuides(),
+        { id: uuidv4(), orientation, position, locked: false }
+      ])
+  }
+
+  updateGuide(id: string, data: Partial<IGuide>) {
+    useFileStore
+      .getState()
+      .updateGuides(
+        getGuides().map((guide) =>
+          guide.id === id ? { ...guide, ...data } : guide
+        )
+      )
+  }
+
+  deleteGuide(id: string) {
+    useFileStore
+      .getState()
+      .updateGuides(getGuides().filter((guide) => guide.id !== id))
+  }
+
+  clearGuides() {
+    useFileStore.getState().updateGuides([])
+  }
+
+  /**
+   * Add hook fn to trigger when guides move on the screen
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const guides = new Guides()
@@ -1,96 +1,798 @@
+import { fabric } from 'fabric'
 import useFileStore, { IBoardData } from '@/store/files'
 import { paintBoard } from './paintBoard'
-import { diff, unpatch, patch, Delta } from 'jsondiffpatch'
-import { cloneDeep } from 'lodash'
-import { getCanvasJSON, handleCanvasJSONLoaded } from './common/loadCanvas'
+import { debounce, isEqual, pick, union, uniq } from 'lodash'
+import { get, set, del, keys, getMany } from 'idb-keyval'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ICanvasState,
+  ObjectData,
+  getCanvasState,
+  getStateBoardData,
+  handleCanvasJSONLoaded
+} from './common/loadCanvas'
 import useBoardStore from '@/store/board'
 import { handleBackgroundImageWhenCanvasSizeChange } from './common/background'
+import { timelapsePlayer, timelapseRecorder } from './timelapse'
+import { collaboration } from './collaboration'
+import { SyncSource, tabSync } from './tabSync'
 
 const initState = {}
 
+const STORAGE_PREFIX = 'PAINT-BOARD-HISTORY-'
+
+// props fabric can't update in place, the object is rebuilt instead
+const REBUILD_PROPS = ['type', 'src']
+
+// nodes kept across all branches per step of history depth
+const MAX_NODES_PER_DEPTH = 4
+
+/**
+ * Operation commands, they carry both states so they apply in either direction
+ */
+export type IHistoryCommand =
+  | {
+      type: 'add' | 'remove'
+      id: string // object id
+      index: number // stacking index of the object
+      data: ObjectData
+    }
+  | {
+      type: 'modify'
+      id: string
+      before: ObjectData // changed props only
+      after: ObjectData
+    }
+  | {
+      type: 'reorder'
+      before: string[] // ids of the objects kept by the step
+      after: string[]
+    }
+  | {
+      type: 'canvas'
+      before: Partial<IBoardData> // background
+      after: Partial<IBoardData>
+    }
+
+export interface IHistoryLabel {
+  key: string // i18n key
+  count?: number // number of objects
+  style?: string // draw style
+}
+
+export interface IHistoryStep {
+  label: IHistoryLabel
+  time: number
+  commands: IHistoryCommand[]
+}
+
+/**
+ * Undo tree node, an edit after undo starts a sibling branch
+ */
+export interface IHistoryNode {
+  id: string
+  parentId: string // '' for the root
+  step?: IHistoryStep // none for the root, the state the tree starts from
+  childIds: string[] // branches in creation order
+  activeChildId: string // branch redo follows, '' for none
+}
+
+export interface IHistoryRecord {
+  nodes: Record<string, IHistoryNode>
+  rootId: string
+  currentId: string // node of the current board state
+  canvasData: Partial<IBoardData> // board state of the current node
+}
+
+const getStorageKey = (fileId: string) => `${STORAGE_PREFIX}${fileId}`
+
+/**
+ * History records of every file
+ */
+export const getHistoryRecords = async () => {
+  const recordKeys = (await keys()).filter((key) =>
+    String(key).startsWith(STORAGE_PREFIX)
+  )
+  return getMany<IHistoryRecord>(recordKeys)
+}
+
+export const removeHistoryRecord = (fileId: string) => {
+  saveHistoryRecord.cancel()
+  return del(getStorageKey(fileId))
+}
+
+const saveHistoryRecord = debounce((fileId: string, record: IHistoryRecord) => {
+  set(getStorageKey(fileId), record)
+}, 1000)
+
+const hookFns: Array<() => void> = []
+
+/**
+ * Add hook fn to trigger when the steps or the current step change
+ */
+export const addHistoryHookFn = (fn: () => void) => {
+  hookFns.push(fn)
+}
+
+export const removeHistoryHookFn = (fn: () => void) => {
+  const hookIndex = hookFns.indexOf(fn)
+  if (hookIndex > -1) {
+    hookFns.splice(hookIndex, 1)
+  }
+}
+
+const triggerHistoryHook = () => {
+  hookFns.forEach((fn) => fn())
+}
+
+/**
+ * Commands turning one canvas state into the next
+ */
+export const getCommands = (prev: ICanvasState, next: ICanvasState) => {
+  const commands: IHistoryCommand[] = []
+  prev.ids.forEach((id, index) => {
+    if (!next.objects[id]) {
+      commands.push({ type: 'remove', id, index, data: prev.objects[id] })
+    }
+  })
+
+  const prevOrder = prev.ids.filter((id) => next.objects[id])
+  const nextOrder = next.ids.filter((id) => prev.objects[id])
+  if (!isEqual(prevOrder, nextOrder)) {
+    commands.push({ type: 'reorder', before: prevOrder, after: nextOrder })
+  }
+
+  next.ids.forEach((id, index) => {
+    const before = prev.objects[id]
+    const after = next.objects[id]
+    if (!before) {
+      commands.push({ type: 'add', id, index, data: after })
+      return
+    }
+    if (before === after) {
+      return
+    }
+    const changedKeys = union(Object.keys(before), Object.keys(after)).filter(
+      (key) => !isEqual(before[key], after[key])
+    )
+    if (changedKeys.length) {
+      commands.push({
+        type: 'modify',
+        id,
+        before: pick(before, changedKeys),
+        after: pick(after, changedKeys)
+      })
+    }
+  })
+
+  if (!isEqual(prev.props, next.props)) {
+    commands.push({ type: 'canvas', before: prev.props, after: next.props })
+  }
+  return commands
+}
+
+/**
+ * Command applying the opposite change
+ */
+export const invertCommand = (command: IHistoryCommand): IHistoryCommand => {
+  switch (command.type) {
+    case 'add':
+      return { ...command, type: 'remove' }
+    case 'remove':
+      return { ...command, type: 'add' }
+    case 'modify':
+      return { ...command, before: command.after, after: command.before }
+    case 'reorder':
+      return { ...command, before: command.after, after: command.before }
+    case 'canvas':
+      return { ...command, before: command.after, after: command.before }
+  }
+}
+
+const COMMAND_ORDER = ['remove', 'reorder', 'add', 'modify', 'canvas']
+
+/**
+ * Removed objects go first and added objects are inserted from the bottom up,
+ * so every stacking index is valid when it is applied
+ */
+const sortCommands = (commands: IHistoryCommand[]) => {
+  return [...commands].sort((a, b) => {
+    const order = COMMAND_ORDER.indexOf(a.type) - COMMAND_ORDER.indexOf(b.type)
+    if (order || a.type !== 'add' || b.type !== 'add') {
+      return order
+    }
+    return a.index - b.index
+  })
+}
+
+const getOrderedIds = (state: ICanvasState, ids: string[]) => {
+  return ids.filter((id) => state.objects[id])
+}
+
+/**
+ * Canvas state after the commands
+ * Commands on objects that are gone or already there are skipped.
+ */
+const patchState = (state: ICanvasState, commands: IHistoryCommand[]) => {
+  const next: ICanvasState = {
+    props: state.props,
+    ids: [...state.ids],
+    objects: { ...state.objects }
+  }
+  sortCommands(commands).forEach((command) => {
+    switch (command.type) {
+      case 'remove':
+        if (next.objects[command.id]) {
+          next.ids.splice(next.ids.indexOf(command.id), 1)
+          delete next.objects[command.id]
+        }
+        break
+      case 'reorder': {
+        // collaborators may have added or removed objects meanwhile
+        const ordered = getOrderedIds(next, command.after)
+        next.ids = [
+          ...ordered,
+          ...next.ids.filter((id) => !ordered.includes(id))
+        ]
+        break
+      }
+      case 'add':
+        if (!next.objects[command.id]) {
+          next.ids.splice(command.index, 0, command.id)
+          next.objects[command.id] = command.data
+        }
+        break
+      case 'modify': {
+        if (!next.objects[command.id]) {
+          break
+        }
+        const data = { ...next.objects[command.id], ...command.after }
+        Object.keys(command.before).forEach((key) => {
+          if (!(key in command.after)) {
+            delete data[key]
+          }
+        })
+        next.objects[command.id] = data
+        break
+      }
+      case 'canvas':
+        next.props = command.after
+        break
+    }
+  })
+  return next
+}
+
+const enlivenObject = (data: ObjectData) => {
+  return new Promise<fabric.Object>((resolve) => {
+    fabric.util.enlivenObjects(
+      [data],
+      ([object]: fabric.Object[]) => resolve(object),
+      'fabric'
+    )
+  })
+}
+
+const findObject = (canvas: fabric.Canvas, id: string) => {
+  return canvas.getObjects().find((obj) => obj.id === id)
+}
+
+const canSetInPlace = (props: ObjectData) => {
+  return Object.entries(props).every(
+    ([key, value]) =>
+      !REBUILD_PROPS.includes(key) &&
+      (value === null || typeof value !== 'object')
+  )
+}
+
+/**
+ * Apply commands to the objects they refer to, other objects are left untouched
+ * @returns canvas state after the commands
+ */
+const applyCommands = async (
+  canvas: fabric.Canvas,
+  state: ICanvasState,
+  commands: IHistoryCommand[]
+) => {
+  const next = patchState(state, commands)
+  for (const command of sortCommands(commands)) {
+    switch (command.type) {
+      case 'remove': {
+        const obj = findObject(canvas, command.id)
+        if (obj) {
+          canvas.remove(obj)
+        }
+        break
+      }
+      case 'reorder':
+        getOrderedIds(next, command.after).forEach((id, index) => {
+          const obj = findObject(canvas, id)
+          if (obj) {
+            canvas.moveTo(obj, index)
+          }
+        })
+        break
+      case 'add':
+        if (!findObject(canvas, command.id)) {
+          canvas.insertAt(
+            await enlivenObject(command.data),
+            command.index,
+            false
+          )
+        }
+        break
+      case 'modify': {
+        const obj = findObject(canvas, command.id)
+        if (!obj) {
+          break
+        }
+        if (canSetInPlace(command.before) && canSetInPlace(command.after)) {
+          obj.set(command.after)
+          obj.setCoords()
+        } else {
+          const rebuilt = await enlivenObject(next.objects[command.id])
+          const index = canvas.getObjects().indexOf(obj)
+          canvas.remove(obj)
+          canvas.insertAt(rebuilt, index, false)
+        }
+        break
+      }
+      case 'canvas': {
+        const { background, backgroundImage } = command.after
+        canvas.backgroundColor = background ?? ''
+        if (!isEqual(command.before.backgroundImage, backgroundImage)) {
+          canvas.backgroundImage = backgroundImage
+            ? ((await enlivenObject(
+                backgroundImage as unknown as ObjectData
+              )) as fabric.Image)
+            : undefined
+          if (backgroundImage) {
+            handleBackgroundImageWhenCanvasSizeChange()
+          }
+        }
+        break
+      }
+    }
+  }
+  return next
+}
+
+/**
+ * Label of a step nobody named, from what its commands change
+ */
+const getCommandsLabel = (commands: IHistoryCommand[]): IHistoryLabel => {
+  const types = uniq(commands.map((command) => command.type))
+  const count = uniq(
+    commands.map((command) => ('id' in command ? command.id : ''))
+  ).filter(Boolean).length
+  return {
+    key: types.length === 1 ? `history.${types[0]}` : 'history.edit',
+    count
+  }
+}
+
+const createRoot = (): IHistoryNode => ({
+  id: uuidv4(),
+  parentId: '',
+  childIds: [],
+  activeChildId: ''
+})
+
+/**
+ * Write the pending record now, a reload would find it older than the board and drop it
+ */
+export const flushHistoryRecord = () => {
+  saveHistoryRecord.flush()
+}
+
 /**
  * Operation History
+ * Every step records the commands of an operation by object id, undo and redo
+ * apply them to the changed objects instead of reloading the board.
+ * Steps form an undo tree, editing after undo keeps the undone steps as a branch.
+ * The tree of every file is kept in IndexedDB and restored when it is reopened.
  */
 export class History {
-  diffs: Array<Delta> = []
-  canvasData: Partial<IBoardData> = {}
-  index = 0
+  nodes: Record<string, IHistoryNode> = {}
+  rootId = ''
+  currentId = '' // node of the current board state
+  state: ICanvasState = { props: {}, ids: [], objects: {} } // current committed state
+  fileId = ''
+  isApplying = false // steps are being applied to the board
+  lock = Promise.resolve() // changes are applied to the board one at a time
+  queuedRemote: Array<{ commands: IHistoryCommand[]; from: string }> = [] // received during a replay
 
   constructor() {
+    this.reset()
     const canvas = paintBoard.canvas
     if (canvas) {
-      const canvasJson = getCanvasJSON()
-      this.canvasData = cloneDeep(canvasJson ?? {})
+      const hasObjectWithoutId = canvas
+        .getObjects()
+        .some((obj) => !obj.excludeFromExport && !obj.id)
+      this.state = getCanvasState()
+      const boardData = getStateBoardData(this.state)
+      // keep the ids given to the objects
+      if (hasObjectWithoutId) {
+        useFileStore.getState().updateBoardData(boardData)
+      }
+      this.fileId = useFileStore.getState().currentId
+      // another file is opened, leave the room of the previous one
+      if (collaboration.room && collaboration.room !== this.fileId) {
+        collaboration.disconnect()
+      }
+      tabSync.loadRevision(this.fileId)
+      timelapseRecorder.load(this.fileId, boardData)
+      this.load()
     }
   }
 
-  saveState() {
-    const canvas = paintBoard?.canvas
-    if (canvas) {
-      this.diffs = this.diffs.slice(0, this.index)
-      const canvasJson = getCanvasJSON()
-      const delta = diff(canvasJson, this.canvasData)
-      this.diffs.push(delta)
-
-      // More than 50 operations, remove initial state
-      if (this.diffs.length > 50) {
-        this.diffs.shift()
-      } else {
-        this.index++
+  /**
+   * Number of steps from the root to the current node
+   */
+  get index() {
+    return this.getPath(this.currentId).length - 1
+  }
+
+  /**
+   * Steps of the current branch, including the undone ones redo follows
+   */
+  get steps() {
+    return this.getBranch().map((node) => node.step as IHistoryStep)
+  }
+
+  reset() {
+    const root = createRoot()
+    this.nodes = { [root.id]: root }
+    this.rootId = root.id
+    this.currentId = root.id
+  }
+
+  /**
+   * Node ids from the root to a node
+   */
+  getPath(nodeId: string) {
+    const path: string[] = []
+    let node: IHistoryNode | undefined = this.nodes[nodeId]
+    while (node) {
+      path.unshift(node.id)
+      node = this.nodes[node.parentId]
+    }
+    return path
+  }
+
+  /**
+   * Nodes after the root up to the current node, then along the active branches
+   */
+  getBranch() {
+    const branch = this.getPath(this.currentId).map((id) => this.nodes[id])
+    let node = branch[branch.length - 1]
+    while (node?.activeChildId) {
+      node = this.nodes[node.activeChildId]
+      branch.push(node)
+    }
+    return branch.slice(1)
+  }
+
+  /**
+   * Restore the stored history of the file
+   * It is dropped if the board was changed outside the history, e.g. by an import.
+   */
+  async load() {
+    saveHistoryRecord.flush()
+    const record = await get<IHistoryRecord>(getStorageKey(this.fileId))
+    if (
+      !record?.nodes ||
+      this.currentId !== this.rootId ||
+      paintBoard.history !== this ||
+      !isEqual(record.canvasData, getStateBoardData(this.state))
+    ) {
+      return
+    }
+    this.nodes = record.nodes
+    this.rootId = record.rootId
+    this.currentId = record.currentId
+    this.trim()
+    triggerHistoryHook()
+  }
+
+  save() {
+    saveHistoryRecord(this.fileId, {
+      nodes: this.nodes,
+      rootId: this.rootId,
+      currentId: this.currentId,
+      canvasData: getStateBoardData(this.state)
+    })
+  }
+
+  /**
+   * Remove a node with its branches
+   */
+  removeNode(nodeId: string) {
+    const node = this.nodes[nodeId]
+    if (!node) {
+      return
+    }
+    node.childIds.forEach((id) => this.removeNode(id))
+    delete this.nodes[nodeId]
+    const parent = this.nodes[node.parentId]
+    if (parent) {
+      parent.childIds = parent.childIds.filter((id) => id !== nodeId)
+      if (parent.activeChildId === nodeId) {
+        parent.activeChildId = parent.childIds[parent.childIds.length - 1] ?? ''
       }
-      this.canvasData = cloneDeep(canvasJson ?? {})
-      useFileStore.getState().updateBoardData(canvasJson)
     }
   }
 
-  undo() {
+  /**
+   * Keep the history depth on the current path and limit the other branches
+   */
+  trim() {
+    const depth = useBoardStore.getState().historyDepth
+    let path = this.getPath(this.currentId)
+    // the first step becomes the root, branches leaving the old root can't be reached anymore
+    while (path.length - 1 > depth) {
+      const root = this.nodes[path[0]]
+      root.childIds
+        .filter((id) => id !== path[1])
+        .forEach((id) => this.removeNode(id))
+      delete this.nodes[root.id]
+      this.rootId = path[1]
+      this.nodes[this.rootId] = {
+        ...this.nodes[this.rootId],
+        parentId: '',
+        step: undefined
+      }
+      path = path.slice(1)
+    }
+
+    // drop the oldest leaves of other branches
+    const kept = new Set([
+      this.rootId,
+      ...this.getBranch().map((node) => node.id)
+    ])
+    while (Object.keys(this.nodes).length > depth * MAX_NODES_PER_DEPTH) {
+      const leaves = Object.values(this.nodes).filter(
+        (node) => !node.childIds.length && !kept.has(node.id)
+      )
+      if (!leaves.length) {
+        break
+      }
+      const oldest = leaves.reduce((a, b) =>
+        (a.step?.time ?? 0) <= (b.step?.time ?? 0) ? a : b
+      )
+      this.removeNode(oldest.id)
+    }
+  }
+
+  /**
+   * Store the committed state and notify the history panel
+   */
+  commit() {
+    const boardData = getStateBoardData(this.state)
+    useFileStore.getState().updateBoardData(boardData)
+    timelapseRecorder.add(boardData)
+    this.save()
+    triggerHistoryHook()
+  }
+
+  /**
+   * Record the changes since the last step as a child of the current node
+   * @param label step label, derived from the changes by default
+   */
+  saveState(label?: IHistoryLabel) {
     const canvas = paintBoard?.canvas
-    if (canvas && this.index > 0) {
-      const delta = this.diffs[this.index - 1]
-      this.index--
-      const canvasJson = patch(this.canvasData, delta) as IBoardData
-      canvas.loadFromJSON(canvasJson, () => {
-        handleCanvasJSONLoaded(canvas)
-
-        canvas.requestRenderAll()
-        useFileStore.getState().updateBoardData(canvasJson)
-        this.canvasData = cloneDeep(canvasJson ?? {})
-        paintBoard.triggerHook()
+    // the board shows a replay, nothing to commit
+    if (!canvas || timelapsePlayer.isPlaying) {
+      return
+    }
+    // commit after the changes being applied
+    if (this.isApplying) {
+      this.lock.then(() => this.saveState(label))
+      return
+    }
+    const state = getCanvasState()
+    const commands = getCommands(this.state, state)
+    if (!commands.length) {
+      return
+    }
+    const parent = this.nodes[this.currentId]
+    const node: IHistoryNode = {
+      id: uuidv4(),
+      parentId: parent.id,
+      step: {
+        label: label ?? getCommandsLabel(commands),
+        time: Date.now(),
+        commands
+      },
+      childIds: [],
+      activeChildId: ''
+    }
+    this.nodes[node.id] = node
+    parent.childIds.push(node.id)
+    parent.activeChildId = node.id
+    this.currentId = node.id
+    this.state = state
+    this.trim()
+    this.commit()
+    this.share(commands)
+  }
 
-        if ((delta as unknown as IBoardData)?.backgroundImage) {
-          handleBackgroundImageWhenCanvasSizeChange()
-        }
-      })
+  undo() {
+    const node = this.nodes[this.currentId]
+    if (node?.parentId) {
+      this.goToNode(node.parentId)
     }
   }
 
   redo() {
-    const canvas = paintBoard?.canvas
-    if (this.index < this.diffs.length && canvas) {
-      const delta = this.diffs[this.index]
-      this.index++
-      const canvasJson = unpatch(this.canvasData, delta) as IBoardData
-      canvas.loadFromJSON(canvasJson, () => {
-        handleCanvasJSONLoaded(canvas)
-        canvas.requestRenderAll()
-
-        useFileStore.getState().updateBoardData(canvasJson)
-        this.canvasData = cloneDeep(canvasJson ?? {})
-        paintBoard.triggerHook()
+    const node = this.nodes[this.currentId]
+    if (node?.activeChildId) {
+      this.goToNode(node.activeChildId)
+    }
+  }
 
-        if ((delta as unknown as IBoardData)?.backgroundImage) {
-          handleBackgroundImageWhenCanvasSizeChange()
-        }
+  /**
+   * Undo or redo up to a step of the current branch
+   * @param index number of steps applied afterwards, 0 is the initial state
+   */
+  goTo(index: number) {
+    const node = index ? this.getBranch()[index - 1] : this.nodes[this.rootId]
+    if (node) {
+      this.goToNode(node.id)
+    }
+  }
+
+  /**
+   * Switch to another branch, its last step is applied
+   * @param nodeId first node of the branch
+   */
+  switchBranch(nodeId: string) {
+    let node = this.nodes[nodeId]
+    while (node?.activeChildId) {
+      node = this.nodes[node.activeChildId]
+    }
+    if (node) {
+      this.goToNode(node.id)
+    }
+  }
+
+  /**
+   * Undo up to the common ancestor, then redo down to the node
+   * @param nodeId any node of the tree
+   */
+  async goToNode(nodeId: string) {
+    if (
+      !paintBoard.canvas ||
+      this.isApplying ||
+      timelapsePlayer.isPlaying ||
+      !this.nodes[nodeId] ||
+      nodeId === this.currentId
+    ) {
+      return
+    }
+    const from = this.getPath(this.currentId)
+    const to = this.getPath(nodeId)
+    let common = 0
+    while (from[common] && from[common] === to[common]) {
+      common++
+    }
+    const batches = [
+      ...from
+        .slice(common)
+        .reverse()
+        .map((id) => (this.nodes[id].step?.commands ?? []).map(invertCommand)),
+      ...to.slice(common).map((id) => this.nodes[id].step?.commands ?? [])
+    ]
+    await this.applyBatches(batches, () => {
+      to.slice(common).forEach((id) => {
+        this.nodes[this.nodes[id].parentId].activeChildId = id
       })
+      this.currentId = nodeId
+    })
+    batches.forEach((commands) => this.share(commands))
+  }
+
+  /**
+   * Share changes with the collaborators and the other tabs of this file
+   * @param from where the changes come from, they are not sent back there
+   */
+  share(commands: IHistoryCommand[], from = SyncSource.LOCAL) {
+    if (from !== SyncSource.COLLABORATION) {
+      collaboration.send(commands)
+    }
+    if (from !== SyncSource.TAB) {
+      tabSync.send(this.fileId, commands)
+    }
+  }
+
+  /**
+   * Apply changes made by collaborators or in another tab, they are not undo steps
+   */
+  applyRemote(commands: IHistoryCommand[], from = SyncSource.COLLABORATION) {
+    // the board shows a replay, they are applied once it is restored
+    if (timelapsePlayer.isPlaying || timelapsePlayer.isRestoring) {
+      this.queuedRemote.push({ commands, from })
+      return Promise.resolve()
+    }
+    return this.applyBatches([commands]).then(() => this.share(commands, from))
+  }
+
+  applyQueuedRemote() {
+    if (timelapsePlayer.isPlaying) {
+      return
     }
+    const queued = this.queuedRemote
+    this.queuedRemote = []
+    queued.forEach(({ commands, from }) => this.applyRemote(commands, from))
+  }
+
+  /**
+   * Apply batches of commands to the board, one call at a time
+   * The selection is kept, objects inside it are applied outside of the group.
+   * @param onApplied called before the new state is committed
+   */
+  applyBatches(batches: IHistoryCommand[][], onApplied?: () => void) {
+    this.isApplying = true
+    this.lock = this.lock
+      .then(async () => {
+        const canvas = paintBoard.canvas
+        if (!canvas) {
+          this.isApplying = false
+          return
+        }
+        this.isApplying = true
+        try {
+          const touchedIds = batches
+            .flat()
+            .map((command) => ('id' in command ? command.id : ''))
+          const selectedIds = canvas.getActiveObjects().map((obj) => obj.id)
+          const isSelectionTouched =
+            canvas.getActiveObject()?.type === 'activeSelection' ||
+            selectedIds.some((id) => touchedIds.includes(id))
+          if (isSelectionTouched) {
+            canvas.discardActiveObject()
+          }
+
+          for (const commands of batches) {
+            this.state = await applyCommands(canvas, this.state, commands)
+          }
+          onApplied?.()
+
+          handleCanvasJSONLoaded(canvas)
+          const selected = canvas
+            .getObjects()
+            .filter((obj) => selectedIds.includes(obj.id))
+          if (isSelectionTouched && canvas.selection && selected.length) {
+            canvas.setActiveObject(
+              selected.length > 1
+                ? new fabric.ActiveSelection(selected, { canvas })
+                : selected[0]
+            )
+          }
+          canvas.requestRenderAll()
+        } finally {
+          this.isApplying = false
+        }
+        this.commit()
+        paintBoard.triggerHook()
+      })
+      // a failed change, e.g. an image that can't load, must not block the next ones
+      .catch((error) => {
+        console.log('history apply fail', error)
+      })
+    return this.lock
   }
 
   clean() {
     paintBoard?.canvas?.clear()
-    this.index = 0
-    this.diffs = []
-    this.canvasData = {}
+    this.reset()
+    const state = getCanvasState()
+    this.share(getCommands(this.state, state))
+    this.state = state
     useFileStore.getState().updateBoardData(initState)
+    timelapseRecorder.add(initState)
+    this.save()
+    triggerHistoryHook()
     useBoardStore.getState().updateBackgroundColor('#ffffff')
     useBoardStore.getState().cleanBackgroundImage()
   }
@@ -98,10 +800,10 @@ export class History {
   initHistory() {
     const canvas = paintBoard.canvas
     if (canvas) {
-      const canvasJson = getCanvasJSON()
-      this.canvasData = canvasJson
-      this.index = 0
-      this.diffs = []
+      this.state = getCanvasState()
+      this.reset()
+      this.save()
+      triggerHistoryHook()
     }
   }
 }
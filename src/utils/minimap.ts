@@ -0,0 +1,153 @@
+import { fabric } from 'fabric'
+import { throttle } from 'lodash'
+import { IBounds, getObjectsBounds, getViewportBounds } from './common/bounds'
+
+export const MINIMAP_WIDTH = 200
+export const MINIMAP_HEIGHT = 140
+const REDRAW_INTERVAL = 100
+const REGION_PADDING = 0.1 // share of the region added around content and view
+
+/**
+ * Where the world is drawn in the minimap
+ */
+export interface IMinimapLayout {
+  region: IBounds // world rect shown
+  scale: number // minimap pixels per world unit
+  offsetX: number // minimap position of the region, it is centered
+  offsetY: number
+}
+
+/**
+ * Fit every object and the current view into the minimap
+ * @param canvas fabric canvas
+ */
+export const getMinimapLayout = (canvas: fabric.Canvas): IMinimapLayout => {
+  const view = getViewportBounds(canvas)
+  const content = getObjectsBounds(canvas.getObjects()) ?? view
+  const left = Math.min(view.left, content.left)
+  const top = Math.min(view.top, content.top)
+  const width =
+    Math.max(view.left + view.width, content.left + content.width) - left
+  const height =
+    Math.max(view.top + view.height, content.top + content.height) - top
+  const region = {
+    left: left - width * REGION_PADDING,
+    top: top - height * REGION_PADDING,
+    width: width * (1 + REGION_PADDING * 2),
+    height: height * (1 + REGION_PADDING * 2)
+  }
+  const scale = Math.min(
+    MINIMAP_WIDTH / region.width,
+    MINIMAP_HEIGHT / region.height
+  )
+  return {
+    region,
+    scale,
+    offsetX: (MINIMAP_WIDTH - region.width * scale) / 2,
+    offsetY: (MINIMAP_HEIGHT - region.height * scale) / 2
+  }
+}
+
+/**
+ * convert a world rect to minimap pixels
+ */
+export const worldToMinimapRect = (
+  layout: IMinimapLayout,
+  rect: IBounds
+): IBounds => {
+  const { region, scale, offsetX, offsetY } = layout
+  return {
+    left: offsetX + (rect.left - region.left) * scale,
+    top: offsetY + (rect.top - region.top) * scale,
+    width: rect.width * scale,
+    height: rect.height * scale
+  }
+}
+
+/**
+ * convert a minimap position to a world point
+ */
+export const minimapToWorldPoint = (
+  layout: IMinimapLayout,
+  x: number,
+  y: number
+) => {
+  const { region, scale, offsetX, offsetY } = layout
+  return new fabric.Point(
+    region.left + (x - offsetX) / scale,
+    region.top + (y - offsetY) / scale
+  )
+}
+
+/**
+ * Draw the background and all objects into the minimap canvas
+ * @param canvas fabric canvas
+ * @param target minimap canvas, MINIMAP_WIDTH x MINIMAP_HEIGHT css pixels
+ */
+export const renderMinimap = (
+  canvas: fabric.Canvas,
+  target: HTMLCanvasElement,
+  layout: IMinimapLayout
+) => {
+  const ctx = target.getContext('2d')
+  if (!ctx) {
+    return
+  }
+  const ratio = window.devicePixelRatio || 1
+  if (target.width !== MINIMAP_WIDTH * ratio) {
+    target.width = MINIMAP_WIDTH * ratio
+    target.height = MINIMAP_HEIGHT * ratio
+  }
+  const { region, scale, offsetX, offsetY } = layout
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.clearRect(0, 0, target.width, target.height)
+  ctx.fillStyle = (canvas.backgroundColor as string) || '#ffffff'
+  ctx.fillRect(0, 0, target.width, target.height)
+  ctx.setTransform(
+    ratio * scale,
+    0,
+    0,
+    ratio * scale,
+    ratio * (offsetX - region.left * scale),
+    ratio * (offsetY - region.top * scale)
+  )
+  // objects outside the view of the board are drawn too
+  const skipOffscreen = canvas.skipOffscreen
+  canvas.skipOffscreen = false
+  canvas.getObjects().forEach((obj) => obj.render(ctx))
+  canvas.skipOffscreen = skipOffscreen
+}
+
+/**
+ * Minimap
+ * Redraws the minimap at most every REDRAW_INTERVAL while the board renders
+ */
+export class Minimap {
+  hookFns: Array<() => void> = []
+
+  init(canvas: fabric.Canvas) {
+    canvas.on('after:render', this.refresh)
+  }
+
+  refresh = throttle(() => this.triggerHook(), REDRAW_INTERVAL)
+
+  /**
+   * Add hook fn to trigger when the minimap should be redrawn
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const minimap = new Minimap()
@@ -3,13 +3,12 @@ import 'fabric/src/mixins/eraser_brush.mixin.js'
 import { brushMouseMixin } from './common/fabricMixin/brushMouse'
 import { alignGuideLine } from './common/fabricMixin/alignGuideLine.js'
 
-import { History } from './history'
+import { History, IHistoryLabel, getHistoryRecords } from './history'
 import { ActionMode, ELEMENT_CUSTOM_TYPE } from '@/constants'
 import { DrawStyle, DrawType } from '@/constants/draw'
 
 import { v4 as uuidv4 } from 'uuid'
-import { debounce } from 'lodash'
-import { isMobile } from './common'
+import { downloadFile, isMobile } from './common'
 import { CanvasEvent } from './event'
 import { TextElement } from './element/text'
 import { material } from './element/draw/material'
@@ -17,10 +16,32 @@ import { renderMultiColor } from './element/draw/multiColor'
 import { renderPencilBrush } from './element/draw/basic'
 import { getEraserWidth } from './common/draw'
 import { autoDrawData } from './autodraw'
-import { handleCanvasJSONLoaded } from './common/loadCanvas'
-import { handleBackgroundImageWhenCanvasSizeChange } from './common/background'
-
-import useFileStore from '@/store/files'
+import {
+  getCanvasJSON,
+  getCanvasState,
+  handleCanvasJSONLoaded
+} from './common/loadCanvas'
+import { getViewCenter, setViewCenter } from './common/bounds'
+import { getCanvasSVG } from './export/svg'
+import { migrateFile } from './common/migration'
+import { IExportImageOptions, exportImage } from './export/image'
+import { getTimelapseRecords } from './timelapse'
+import { autoSnapshot, getAllSnapshots } from './snapshot'
+import { tabSync } from './tabSync'
+import { presence } from './presence'
+import { commentBoard } from './comments'
+import { minimap } from './minimap'
+import { grid } from './grid'
+import { guides } from './guides'
+import { artboards } from './artboards'
+import {
+  collectAssetGarbage,
+  hasInlineAssets,
+  inlineAssetURLs,
+  initAssetLoader
+} from './common/assets'
+
+import useFileStore, { IBoardData, waitForFileHydration } from '@/store/files'
 import useDrawStore from '@/store/draw'
 import useBoardStore from '@/store/board'
 
@@ -60,12 +81,31 @@ export class PaintBoard {
         brushMouseMixin.initCanvas(this.canvas)
       }
       alignGuideLine.init(this.canvas, useBoardStore.getState().openGuideLine)
+      initAssetLoader()
 
       this.evnet = new CanvasEvent()
+      presence.init(this.canvas)
+      commentBoard.init(this.canvas)
+      minimap.init(this.canvas)
+      artboards.init(this.canvas)
+      grid.init(this.canvas)
+      guides.init(this.canvas)
       this.handleMode()
 
       await this.initCanvasStorage()
 
+      autoSnapshot.start()
+      tabSync.start()
+
+      // besides files, timelapse records, snapshots and undo history refer to assets
+      Promise.all([
+        getTimelapseRecords(),
+        getAllSnapshots(),
+        getHistoryRecords()
+      ]).then(([records, snapshots, histories]) =>
+        collectAssetGarbage([...records, ...snapshots, ...histories])
+      )
+
       resolve(true)
     })
   }
@@ -74,6 +114,9 @@ export class PaintBoard {
     if (this.canvas) {
       this?.canvas?.dispose()
       this.evnet?.removeEvent()
+      autoSnapshot.stop()
+      tabSync.stop()
+      presence.destroy()
       this.canvas = null
     }
   }
@@ -83,39 +126,39 @@ export class PaintBoard {
    */
   initCanvasStorage() {
     return new Promise((resolve) => {
-      setTimeout(() => {
-        const { files, currentId } = useFileStore.getState()
-        const file = files?.find((item) => item?.id === currentId)
+      setTimeout(async () => {
+        await waitForFileHydration()
+        const { currentId, loadFile } = useFileStore.getState()
+        const storedFile = await loadFile(currentId)
+        const file = storedFile && migrateFile(storedFile)
+        if (file && file !== storedFile && file.boardData) {
+          useFileStore.getState().updateBoardData(file.boardData)
+        }
         if (file && this.canvas) {
           this.canvas.clear()
           this.canvas.loadFromJSON(file.boardData, () => {
             if (this.canvas) {
-              if (file.viewportTransform) {
-                this.canvas.setViewportTransform(file.viewportTransform)
-              }
-              if (file?.zoom && this.canvas.width && this.canvas.height) {
-                this.canvas.zoomToPoint(
-                  new fabric.Point(
-                    this.canvas.width / 2,
-                    this.canvas.height / 2
-                  ),
-                  file.zoom
-                )
-              }
-
-              this.canvas.setWidth(window.innerWidth * (file?.canvasWidth || 1))
-              useBoardStore.getState().updateCanvasWidth(file?.canvasWidth || 1)
-              this.canvas.setHeight(
-                window.innerHeight * (file?.canvasHeight || 1)
+              this.canvas.setWidth(window.innerWidth)
+              this.canvas.setHeight(window.innerHeight)
+              // new files start with the world origin at the top left
+              setViewCenter(
+                this.canvas,
+                file.viewCenter ?? {
+                  x: window.innerWidth / 2,
+                  y: window.innerHeight / 2
+                },
+                file.zoom || 1
               )
+              this.saveView()
               useBoardStore.getState().initBackground()
 
-              useBoardStore
-                .getState()
-                .updateCanvasHeight(file?.canvasHeight || 1)
-
               handleCanvasJSONLoaded(this.canvas)
 
+              // images are loaded from the asset store now, store their references only
+              if (hasInlineAssets(file.boardData)) {
+                useFileStore.getState().updateBoardData(getCanvasJSON())
+              }
+
               fabric.Object.prototype.set({
                 objectCaching: useBoardStore.getState().isObjectCaching
               })
@@ -132,6 +175,31 @@ export class PaintBoard {
     })
   }
 
+  /**
+   * Replace the board of the current file with a board from elsewhere,
+   * e.g. a collaborator or another tab, the undo history starts again from it
+   */
+  replaceBoardData(boardData: Partial<IBoardData>) {
+    return new Promise<void>((resolve) => {
+      const canvas = this.canvas
+      if (!canvas) {
+        resolve()
+        return
+      }
+      canvas.loadFromJSON(boardData, () => {
+        handleCanvasJSONLoaded(canvas)
+        getCanvasState() // give ids to objects missing one
+        useFileStore.getState().updateBoardData(getCanvasJSON())
+        useBoardStore.getState().initBackground()
+        this.history?.initHistory()
+        this.handleMode()
+        canvas.requestRenderAll()
+        this.triggerHook()
+        resolve()
+      })
+    })
+  }
+
   /**
    * handle mode of operation
    * @param mode current mode
@@ -175,6 +243,11 @@ export class PaintBoard {
         objectSet.hoverCursor = undefined
         selection = true
         break
+      case ActionMode.COMMENT:
+        // pins are dropped on the board or on objects
+        objectSet.hoverCursor = 'crosshair'
+        this.canvas.discardActiveObject()
+        break
       default:
         break
     }
@@ -255,23 +328,34 @@ export class PaintBoard {
 
   /**
    * render and save history state
+   * @param label history step label, derived from the changes by default
    */
-  render() {
+  render(label?: IHistoryLabel) {
     if (this.canvas) {
       this.canvas?.requestRenderAll()
-      this.history?.saveState()
+      this.history?.saveState(label)
     }
   }
 
   /**
    * save as Image
+   * @param options export area, scale, format and background
+   * @returns whether the image is exported
+   */
+  saveImage(options?: Partial<IExportImageOptions>) {
+    return exportImage(options)
+  }
+
+  /**
+   * save as SVG
    */
-  saveImage() {
+  async saveSVG() {
     if (this.canvas) {
-      const link = document.createElement('a')
-      link.href = this.canvas.toDataURL()
-      link.download = 'paint-board.png'
-      link.click()
+      const svg = await inlineAssetURLs(getCanvasSVG())
+      const blob = new Blob([svg], { type: 'image/svg+xml' })
+      const href = URL.createObjectURL(blob)
+      downloadFile(href, 'paint-board.svg')
+      URL.revokeObjectURL(href)
     }
   }
 
@@ -309,7 +393,7 @@ export class PaintBoard {
         canvas: canvas
       })
       canvas.setActiveObject(activeSelection)
-      this.render()
+      this.render({ key: 'history.copy', count: objs.length })
     })
   }
 
@@ -397,21 +481,17 @@ export class PaintBoard {
     })
   }
 
-  updateCanvasWidth = debounce((width) => {
-    if (this.canvas) {
-      this.canvas.setWidth(window.innerWidth * width)
-      handleBackgroundImageWhenCanvasSizeChange()
-      useFileStore.getState().updateCanvasWidth(width)
-    }
-  }, 500)
-
-  updateCanvasHeight = debounce((height) => {
+  /**
+   * Save the view of the current file, it opens at the same center and zoom on any screen
+   */
+  saveView() {
     if (this.canvas) {
-      this.canvas.setHeight(window.innerHeight * height)
-      handleBackgroundImageWhenCanvasSizeChange()
-      useFileStore.getState().updateCanvasHeight(height)
+      const center = getViewCenter(this.canvas)
+      useFileStore
+        .getState()
+        .updateView({ x: center.x, y: center.y }, this.canvas.getZoom())
     }
-  }, 500)
+  }
 }
 
 export const paintBoard = new PaintBoard()
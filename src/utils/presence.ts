@@ -0,0 +1,199 @@
+import { fabric } from 'fabric'
+import { isEqual, throttle } from 'lodash'
+import { paintBoard } from './paintBoard'
+import { setViewCenter } from './common/bounds'
+import { CollaborationStatus, collaboration } from './collaboration'
+import useBoardStore from '@/store/board'
+
+const SEND_INTERVAL = 50
+
+/**
+ * What a participant of a shared board is doing
+ */
+export interface IPresence {
+  name: string // display name, empty for guests
+  color: string
+  pointer: { x: number; y: number } | null // world coordinates, null when outside the board
+  mode: string // useBoardStore mode
+  drawType: string // useBoardStore drawType
+  selection: string[] // ids of the selected objects
+  viewport: number[] // viewportTransform
+  width: number // canvas size, the center of the view is followed
+  height: number
+}
+
+/**
+ * Presence
+ * Shares the pointer, tool, selection and viewport of this client with its room
+ * and keeps those of the other participants. Following a participant mirrors
+ * the center and zoom of their view.
+ */
+export class Presence {
+  users: Record<string, IPresence> = {} // client id -> presence
+  followingId = '' // client id of the followed participant
+  pointer: IPresence['pointer'] = null
+  viewport: number[] = []
+  unsubscribe: (() => void) | null = null
+  hookFns: Array<() => void> = []
+
+  init(canvas: fabric.Canvas) {
+    canvas.on('mouse:move', (e) => {
+      const pointer = canvas.getPointer(e.e)
+      this.pointer = { x: pointer.x, y: pointer.y }
+      this.send()
+    })
+    canvas.on('mouse:out', () => {
+      this.pointer = null
+      this.send()
+    })
+    canvas.on('selection:created', () => this.send())
+    canvas.on('selection:updated', () => this.send())
+    canvas.on('selection:cleared', () => this.send())
+    // zooming or panning on your own stops following
+    canvas.on('mouse:wheel', () => this.follow(''))
+    canvas.on('after:render', () => {
+      const viewport = canvas.viewportTransform ?? []
+      if (!isEqual(viewport, this.viewport)) {
+        this.viewport = [...viewport]
+        if (this.followingId) {
+          this.follow('')
+        }
+        this.send()
+      }
+      // cursors and selections are placed in the viewport of this client
+      if (Object.keys(this.users).length) {
+        this.triggerHook()
+      }
+    })
+    this.unsubscribe = useBoardStore.subscribe((state, prevState) => {
+      if (
+        state.mode !== prevState.mode ||
+        state.drawType !== prevState.drawType ||
+        state.userName !== prevState.userName ||
+        state.userColor !== prevState.userColor
+      ) {
+        this.send()
+      }
+    })
+  }
+
+  destroy() {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.clear()
+  }
+
+  getLocal(): IPresence | null {
+    const canvas = paintBoard.canvas
+    if (!canvas) {
+      return null
+    }
+    const { userName, userColor, mode, drawType } = useBoardStore.getState()
+    return {
+      name: userName,
+      color: userColor,
+      pointer: this.pointer,
+      mode,
+      drawType,
+      selection: canvas
+        .getActiveObjects()
+        .map((obj) => obj.id)
+        .filter(Boolean),
+      viewport: [...(canvas.viewportTransform ?? [])],
+      width: canvas.getWidth(),
+      height: canvas.getHeight()
+    }
+  }
+
+  /**
+   * Share the presence of this client, at most every SEND_INTERVAL
+   */
+  send = throttle(() => {
+    const presence = this.getLocal()
+    if (collaboration.status === CollaborationStatus.ONLINE && presence) {
+      collaboration.post({
+        type: 'presence',
+        clientId: collaboration.clientId,
+        presence
+      })
+    }
+  }, SEND_INTERVAL)
+
+  receive(clientId: string, presence: IPresence) {
+    this.users[clientId] = presence
+    if (clientId === this.followingId) {
+      this.followView(presence)
+    }
+    this.triggerHook()
+  }
+
+  remove(clientId: string) {
+    delete this.users[clientId]
+    if (clientId === this.followingId) {
+      this.followingId = ''
+    }
+    this.triggerHook()
+  }
+
+  clear() {
+    this.users = {}
+    this.followingId = ''
+    this.triggerHook()
+  }
+
+  /**
+   * Follow the viewport of a participant
+   * @param clientId empty to stop following
+   */
+  follow(clientId: string) {
+    if (clientId === this.followingId) {
+      return
+    }
+    this.followingId = clientId
+    const presence = this.users[clientId]
+    if (presence) {
+      this.followView(presence)
+    }
+    this.triggerHook()
+  }
+
+  /**
+   * Show the center of the view of a participant at the same zoom
+   */
+  followView(presence: IPresence) {
+    const canvas = paintBoard.canvas
+    if (!canvas || presence.viewport.length < 6) {
+      return
+    }
+    const zoom = presence.viewport[0]
+    const center = fabric.util.transformPoint(
+      new fabric.Point(presence.width / 2, presence.height / 2),
+      fabric.util.invertTransform(presence.viewport)
+    )
+    // not a change of your own, keep following
+    setViewCenter(canvas, center, zoom)
+    this.viewport = [...(canvas.viewportTransform ?? [])]
+    this.send()
+    paintBoard.evnet?.zoomEvent.updateZoomPercentage(true)
+  }
+
+  /**
+   * Add hook fn to trigger when the participants or this viewport change
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const presence = new Presence()
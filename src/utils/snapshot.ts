@@ -0,0 +1,233 @@
+import { get, set, del, keys, getMany } from 'idb-keyval'
+import { diff, patch, Delta } from 'jsondiffpatch'
+import { cloneDeep } from 'lodash'
+import { v4 as uuidv4 } from 'uuid'
+import { paintBoard } from './paintBoard'
+import { getCanvasJSON, handleCanvasJSONLoaded } from './common/loadCanvas'
+import useFileStore, { IBoardData } from '@/store/files'
+import useBoardStore from '@/store/board'
+import i18n from '@/i18n'
+import { timelapsePlayer } from './timelapse'
+
+const STORAGE_PREFIX = 'PAINT-BOARD-SNAPSHOTS-'
+const THUMBNAIL_WIDTH = 160
+const MAX_AUTO_SNAPSHOTS = 20 // older auto snapshots are dropped, manual ones are kept
+const AUTO_SNAPSHOT_CHECK = 60 * 1000
+
+export interface ISnapshot {
+  id: string
+  name: string
+  createdAt: number
+  auto: boolean // created by the auto snapshot timer
+  thumbnail: string // jpeg data url
+  delta: Delta // from the previous snapshot, the first one from an empty board
+}
+
+const getStorageKey = (fileId: string) => `${STORAGE_PREFIX}${fileId}`
+
+/**
+ * Snapshots of every file
+ */
+export const getAllSnapshots = async () => {
+  const snapshotKeys = (await keys()).filter((key) =>
+    String(key).startsWith(STORAGE_PREFIX)
+  )
+  return getMany<ISnapshot[]>(snapshotKeys)
+}
+
+export const getSnapshots = async (fileId: string) => {
+  return ((await get(getStorageKey(fileId))) ?? []) as ISnapshot[]
+}
+
+/**
+ * Board data of every snapshot, in the same order
+ */
+const getSnapshotsData = (snapshots: ISnapshot[]) => {
+  const data: Partial<IBoardData>[] = []
+  snapshots.forEach((snapshot, index) => {
+    const prev = index ? data[index - 1] : {}
+    data.push(patch(cloneDeep(prev), snapshot.delta) as Partial<IBoardData>)
+  })
+  return data
+}
+
+/**
+ * Save snapshots with deltas rebuilt from their board data
+ */
+const saveSnapshots = (
+  fileId: string,
+  snapshots: ISnapshot[],
+  data: Partial<IBoardData>[]
+) => {
+  const result = snapshots.map((snapshot, index) => ({
+    ...snapshot,
+    delta: diff(index ? data[index - 1] : {}, data[index]) ?? {}
+  }))
+  return set(getStorageKey(fileId), result)
+}
+
+export const getSnapshotData = async (fileId: string, snapshotId: string) => {
+  const snapshots = await getSnapshots(fileId)
+  const index = snapshots.findIndex((snapshot) => snapshot.id === snapshotId)
+  if (index < 0) {
+    return null
+  }
+  return getSnapshotsData(snapshots.slice(0, index + 1))[index]
+}
+
+const getThumbnail = () => {
+  const canvas = paintBoard.canvas
+  if (!canvas) {
+    return ''
+  }
+  return canvas.toDataURL({
+    format: 'jpeg',
+    quality: 0.6,
+    multiplier: THUMBNAIL_WIDTH / (canvas.getWidth() || THUMBNAIL_WIDTH)
+  })
+}
+
+/**
+ * Save the current board as a snapshot of the current file
+ * @param name snapshot name
+ * @param auto created by the auto snapshot timer
+ * @returns whether a snapshot is saved, auto snapshots skip unchanged boards
+ */
+export const saveSnapshot = async (name: string, auto = false) => {
+  if (!paintBoard.canvas) {
+    return false
+  }
+  const fileId = useFileStore.getState().currentId
+  const boardData = cloneDeep(getCanvasJSON())
+  let snapshots = await getSnapshots(fileId)
+  let data = getSnapshotsData(snapshots)
+  if (auto && !diff(data[data.length - 1] ?? {}, boardData)) {
+    return false
+  }
+
+  snapshots.push({
+    id: uuidv4(),
+    name,
+    createdAt: Date.now(),
+    auto,
+    thumbnail: getThumbnail(),
+    delta: {}
+  })
+  data.push(boardData)
+
+  const autoIndexes = snapshots
+    .map((snapshot, index) => (snapshot.auto ? index : -1))
+    .filter((index) => index > -1)
+  if (autoIndexes.length > MAX_AUTO_SNAPSHOTS) {
+    const dropped = autoIndexes.slice(
+      0,
+      autoIndexes.length - MAX_AUTO_SNAPSHOTS
+    )
+    snapshots = snapshots.filter((_, index) => !dropped.includes(index))
+    data = data.filter((_, index) => !dropped.includes(index))
+  }
+
+  await saveSnapshots(fileId, snapshots, data)
+  return true
+}
+
+export const deleteSnapshot = async (fileId: string, snapshotId: string) => {
+  const snapshots = await getSnapshots(fileId)
+  const data = getSnapshotsData(snapshots)
+  const index = snapshots.findIndex((snapshot) => snapshot.id === snapshotId)
+  if (index > -1) {
+    snapshots.splice(index, 1)
+    data.splice(index, 1)
+    await saveSnapshots(fileId, snapshots, data)
+  }
+}
+
+export const renameSnapshot = async (
+  fileId: string,
+  snapshotId: string,
+  name: string
+) => {
+  const snapshots = await getSnapshots(fileId)
+  const snapshot = snapshots.find((item) => item.id === snapshotId)
+  if (snapshot) {
+    snapshot.name = name
+    await set(getStorageKey(fileId), snapshots)
+  }
+}
+
+export const removeSnapshots = (fileId: string) => {
+  return del(getStorageKey(fileId))
+}
+
+/**
+ * Replace the current board with a snapshot, the restore can be undone
+ */
+export const restoreSnapshot = async (snapshotId: string) => {
+  const canvas = paintBoard.canvas
+  const data = await getSnapshotData(
+    useFileStore.getState().currentId,
+    snapshotId
+  )
+  if (!canvas || !data) {
+    return false
+  }
+  return new Promise<boolean>((resolve) => {
+    canvas.loadFromJSON(data, () => {
+      handleCanvasJSONLoaded(canvas)
+      useBoardStore.getState().initBackground()
+      paintBoard.handleMode()
+      paintBoard.render({ key: 'history.restore' })
+      paintBoard.triggerHook()
+      resolve(true)
+    })
+  })
+}
+
+/**
+ * Copy a snapshot into a new file and open it
+ */
+export const forkSnapshot = async (snapshotId: string) => {
+  const { files, currentId, forkFile } = useFileStore.getState()
+  const file = files.find((item) => item.id === currentId)
+  const snapshot = (await getSnapshots(currentId)).find(
+    (item) => item.id === snapshotId
+  )
+  const data = await getSnapshotData(currentId, snapshotId)
+  if (!file || !snapshot || !data) {
+    return false
+  }
+  await forkFile(file, `${file.title} - ${snapshot.name}`, data)
+  await paintBoard.initCanvasStorage()
+  return true
+}
+
+/**
+ * Auto Snapshot
+ * Saves the current file every autoSnapshotInterval minutes while it changes
+ */
+export class AutoSnapshot {
+  timer: ReturnType<typeof setInterval> | undefined
+  lastTime = Date.now()
+
+  start() {
+    this.stop()
+    this.lastTime = Date.now()
+    this.timer = setInterval(() => {
+      const interval = useBoardStore.getState().autoSnapshotInterval
+      if (
+        interval > 0 &&
+        Date.now() - this.lastTime >= interval * 60 * 1000 &&
+        !timelapsePlayer.isPlaying
+      ) {
+        this.lastTime = Date.now()
+        saveSnapshot(i18n.t('snapshot.autoName'), true)
+      }
+    }, AUTO_SNAPSHOT_CHECK)
+  }
+
+  stop() {
+    clearInterval(this.timer)
+  }
+}
+
+export const autoSnapshot = new AutoSnapshot()
@@ -0,0 +1,404 @@
+import { fabric } from 'fabric'
+import { get, set, del } from 'idb-keyval'
+import { isEqual, pick, pickBy } from 'lodash'
+import { v4 as uuidv4 } from 'uuid'
+import i18n from '@/i18n'
+import { paintBoard } from './paintBoard'
+import { IHistoryCommand } from './history'
+import { getStateBoardData } from './common/loadCanvas'
+import { getBoardData, getFileMeta } from './common/fileStorage'
+import { alignGuideLine } from './common/fabricMixin/alignGuideLine'
+import { getStoreData } from './export/workspace'
+import useFileStore, { IBoardData, IFile } from '@/store/files'
+import useBoardStore from '@/store/board'
+import useDrawStore from '@/store/draw'
+import useShapeStore from '@/store/shape'
+
+const CHANNEL_NAME = 'paint-board-sync'
+const REVISION_PREFIX = 'PAINT-BOARD-REVISION-'
+
+/**
+ * Where board changes come from, they are shared everywhere else
+ */
+export const SyncSource = {
+  LOCAL: 'local',
+  COLLABORATION: 'collaboration',
+  TAB: 'tab'
+}
+
+// preferences of the board store shared between tabs, the rest belongs to the tab
+const BOARD_PREFERENCES = [
+  'language',
+  'isObjectCaching',
+  'openGuideLine',
+  'showRulers',
+  'rulerUnit',
+  'gridType',
+  'gridSize',
+  'snapToGrid',
+  'autoSnapshotInterval',
+  'historyDepth',
+  'collaborationServer',
+  'userName',
+  'userColor'
+]
+
+const preferenceStores = {
+  board: useBoardStore,
+  draw: useDrawStore,
+  shape: useShapeStore
+}
+
+type IPreferenceStore = keyof typeof preferenceStores
+
+/**
+ * Messages between the tabs of this origin
+ */
+export type ITabSyncMessage =
+  | {
+      type: 'ops'
+      tabId: string
+      fileId: string
+      baseRevision: string // board revision the commands were made on
+      revision: string
+      commands: IHistoryCommand[]
+    }
+  | {
+      type: 'board'
+      tabId: string
+      fileId: string
+      revision: string
+      boardData: Partial<IBoardData>
+    }
+  | { type: 'board-request'; tabId: string; fileId: string; to: string }
+  | { type: 'files'; tabId: string; files: IFile[] }
+  | {
+      type: 'preferences'
+      tabId: string
+      store: IPreferenceStore
+      data: Record<string, unknown>
+    }
+
+/**
+ * Board edited in this tab and elsewhere, one version has to be picked
+ */
+export interface ITabConflict {
+  fileId: string
+  tabId: string // tab with the other version, empty when it is only saved
+}
+
+const getRevisionKey = (fileId: string) => `${REVISION_PREFIX}${fileId}`
+
+export const removeRevision = (fileId: string) => {
+  return del(getRevisionKey(fileId))
+}
+
+const getPreferences = (store: IPreferenceStore, state: object) => {
+  const data = getStoreData(state)
+  return store === 'board' ? pick(data, BOARD_PREFERENCES) : data
+}
+
+// the file list, comments, guides and artboards are shared, zoom and viewport belong to each tab
+const getFileListKey = (files: IFile[]) =>
+  files.map((file) => [
+    file.id,
+    file.title,
+    file.comments,
+    file.guides,
+    file.artboards
+  ])
+
+/**
+ * Tab Sync
+ * Shares board changes, the file list and the preferences with the other tabs
+ * through a BroadcastChannel. Every board change gets a new revision, a change
+ * made on another revision than the one this tab knows is a conflict.
+ */
+export class TabSync {
+  channel: BroadcastChannel | null = null
+  tabId = uuidv4()
+  revisions: Record<string, string> = {} // file id -> board revision known here
+  conflict: ITabConflict | null = null
+  isReceiving = false // store changes come from another tab
+  unsubscribes: Array<() => void> = []
+  hookFns: Array<() => void> = []
+
+  start() {
+    this.stop()
+    if (typeof BroadcastChannel === 'undefined') {
+      return
+    }
+    this.channel = new BroadcastChannel(CHANNEL_NAME)
+    this.channel.onmessage = (e) => this.handleMessage(e.data)
+
+    this.unsubscribes.push(
+      useFileStore.subscribe((state, prevState) => {
+        if (
+          !this.isReceiving &&
+          !isEqual(getFileListKey(state.files), getFileListKey(prevState.files))
+        ) {
+          this.post({
+            type: 'files',
+            tabId: this.tabId,
+            files: state.files.map(getFileMeta)
+          })
+        }
+      })
+    )
+    ;(Object.keys(preferenceStores) as IPreferenceStore[]).forEach((store) => {
+      const useStore = preferenceStores[store] as typeof useShapeStore
+      this.unsubscribes.push(
+        useStore.subscribe((state, prevState) => {
+          if (this.isReceiving) {
+            return
+          }
+          const prev = getPreferences(store, prevState)
+          const data = pickBy(
+            getPreferences(store, state),
+            (value, key) => !isEqual(value, prev[key])
+          )
+          if (Object.keys(data).length) {
+            this.post({ type: 'preferences', tabId: this.tabId, store, data })
+          }
+        })
+      )
+    })
+    document.addEventListener('visibilitychange', this.checkRevision)
+  }
+
+  stop() {
+    this.channel?.close()
+    this.channel = null
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribes = []
+    document.removeEventListener('visibilitychange', this.checkRevision)
+  }
+
+  post(message: ITabSyncMessage) {
+    this.channel?.postMessage(message)
+  }
+
+  /**
+   * Read the saved board revision of a file when it is opened
+   */
+  async loadRevision(fileId: string) {
+    this.revisions[fileId] = (await get(getRevisionKey(fileId))) ?? ''
+  }
+
+  /**
+   * Save a new board revision of a file
+   */
+  updateRevision(fileId: string) {
+    const revision = uuidv4()
+    this.revisions[fileId] = revision
+    set(getRevisionKey(fileId), revision)
+    return revision
+  }
+
+  /**
+   * Share commands applied to the board of a file
+   */
+  send(fileId: string, commands: IHistoryCommand[]) {
+    if (!fileId || !commands.length) {
+      return
+    }
+    const baseRevision = this.revisions[fileId] ?? ''
+    this.post({
+      type: 'ops',
+      tabId: this.tabId,
+      fileId,
+      baseRevision,
+      revision: this.updateRevision(fileId),
+      commands
+    })
+  }
+
+  /**
+   * Send the board of the current file, the other tabs replace theirs with it
+   */
+  sendBoard() {
+    const history = paintBoard.history
+    if (!history) {
+      return
+    }
+    this.post({
+      type: 'board',
+      tabId: this.tabId,
+      fileId: history.fileId,
+      revision: this.updateRevision(history.fileId),
+      boardData: getStateBoardData(history.state)
+    })
+  }
+
+  handleMessage(message: ITabSyncMessage) {
+    const currentId = useFileStore.getState().currentId
+    switch (message.type) {
+      case 'ops':
+        if (message.fileId !== currentId) {
+          break
+        }
+        // the other tab did not see every change made here
+        if (message.baseRevision !== (this.revisions[currentId] ?? '')) {
+          this.updateConflict({ fileId: currentId, tabId: message.tabId })
+        }
+        this.revisions[currentId] = message.revision
+        paintBoard.history?.applyRemote(message.commands, SyncSource.TAB)
+        break
+      case 'board':
+        if (message.fileId !== currentId) {
+          break
+        }
+        this.revisions[currentId] = message.revision
+        if (this.conflict?.fileId === currentId) {
+          this.updateConflict(null)
+        }
+        paintBoard.replaceBoardData(message.boardData)
+        break
+      case 'board-request':
+        if (message.to === this.tabId && message.fileId === currentId) {
+          this.sendBoard()
+        }
+        break
+      case 'files':
+        this.applyFiles(message.files)
+        break
+      case 'preferences':
+        this.applyPreferences(message.store, message.data)
+        break
+    }
+  }
+
+  /**
+   * Take the file list of another tab, board data loaded here is kept
+   */
+  applyFiles(files: IFile[]) {
+    const { files: localFiles, currentId } = useFileStore.getState()
+    const isCurrentDeleted = !files.some((file) => file.id === currentId)
+    this.isReceiving = true
+    useFileStore.setState({
+      files: files.map((file) => {
+        const localFile = localFiles.find((item) => item.id === file.id)
+        return localFile
+          ? {
+              ...localFile,
+              title: file.title,
+              comments: file.comments,
+              guides: file.guides,
+              artboards: file.artboards
+            }
+          : file
+      }),
+      currentId: isCurrentDeleted ? files[0]?.id ?? currentId : currentId
+    })
+    this.isReceiving = false
+    if (isCurrentDeleted && files.length) {
+      paintBoard.initCanvasStorage()
+    } else {
+      // artboards are drawn with the board
+      paintBoard.canvas?.requestRenderAll()
+    }
+  }
+
+  applyPreferences(store: IPreferenceStore, data: Record<string, unknown>) {
+    const useStore = preferenceStores[store] as typeof useShapeStore
+    this.isReceiving = true
+    useStore.setState(data)
+    this.isReceiving = false
+
+    if (store !== 'board') {
+      // the brush reads the draw and shape settings
+      paintBoard.handleMode()
+      return
+    }
+    const { language, isObjectCaching, openGuideLine, historyDepth } =
+      useBoardStore.getState()
+    if ('language' in data) {
+      i18n.changeLanguage(language)
+    }
+    if ('isObjectCaching' in data) {
+      fabric.Object.prototype.set({ objectCaching: isObjectCaching })
+      paintBoard.canvas?.renderAll()
+    }
+    if ('openGuideLine' in data) {
+      alignGuideLine.updateOpenState(openGuideLine)
+    }
+    if ('gridType' in data || 'gridSize' in data) {
+      paintBoard.canvas?.requestRenderAll()
+    }
+    if ('historyDepth' in data && historyDepth) {
+      paintBoard.history?.trim()
+      paintBoard.history?.save()
+      paintBoard.triggerHook()
+    }
+  }
+
+  /**
+   * A tab in the background may have missed changes saved by another tab
+   */
+  checkRevision = async () => {
+    if (document.visibilityState !== 'visible') {
+      return
+    }
+    const fileId = useFileStore.getState().currentId
+    const revision = (await get(getRevisionKey(fileId))) ?? ''
+    if (revision !== (this.revisions[fileId] ?? '')) {
+      this.updateConflict({ fileId, tabId: '' })
+    }
+  }
+
+  /**
+   * Keep the board of this tab, the other tabs take it
+   */
+  keepLocal() {
+    this.sendBoard()
+    this.updateConflict(null)
+  }
+
+  /**
+   * Take the board of the other tab, or the saved one when that tab is gone
+   */
+  async keepOther() {
+    const conflict = this.conflict
+    this.updateConflict(null)
+    if (!conflict || conflict.fileId !== useFileStore.getState().currentId) {
+      return
+    }
+    if (conflict.tabId) {
+      this.post({
+        type: 'board-request',
+        tabId: this.tabId,
+        fileId: conflict.fileId,
+        to: conflict.tabId
+      })
+      return
+    }
+    const revision = (await get(getRevisionKey(conflict.fileId))) ?? ''
+    await paintBoard.replaceBoardData(await getBoardData(conflict.fileId))
+    this.revisions[conflict.fileId] = revision
+  }
+
+  updateConflict(conflict: ITabConflict | null) {
+    this.conflict = conflict
+    this.triggerHook()
+  }
+
+  /**
+   * Add hook fn to trigger when a conflict is found or resolved
+   */
+  addHookFn(fn: () => void) {
+    this.hookFns.push(fn)
+  }
+
+  removeHookFn(fn: () => void) {
+    const hookIndex = this.hookFns.indexOf(fn)
+    if (hookIndex > -1) {
+      this.hookFns.splice(hookIndex, 1)
+    }
+  }
+
+  triggerHook() {
+    this.hookFns.forEach((fn) => fn())
+  }
+}
+
+export const tabSync = new TabSync()
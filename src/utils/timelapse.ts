@@ -0,0 +1,298 @@
+import { get, set, del, keys, getMany } from 'idb-keyval'
+import { diff, patch, Delta } from 'jsondiffpatch'
+import { cloneDeep, debounce } from 'lodash'
+import { paintBoard } from './paintBoard'
+import { getCanvasJSON, handleCanvasJSONLoaded } from './common/loadCanvas'
+import { IBoardData } from '@/store/files'
+
+const STORAGE_PREFIX = 'PAINT-BOARD-TIMELAPSE-'
+
+// clamp the real pause between two operations when replaying
+const MIN_FRAME_DELAY = 80
+const MAX_FRAME_DELAY = 1000
+export const LAST_FRAME_DELAY = 2000
+const MAX_OPERATIONS = 1000 // older operations are folded into the base
+
+export interface ITimelapseOperation {
+  time: number // commit timestamp
+  delta: Delta // forward delta from the previous board state
+}
+
+export interface ITimelapseRecord {
+  fileId: string
+  startTime: number // recording start timestamp
+  base: Partial<IBoardData> // board state when recording started
+  operations: ITimelapseOperation[]
+}
+
+export interface ITimelapseFrame {
+  time: number
+  data: Partial<IBoardData>
+}
+
+const getStorageKey = (fileId: string) => `${STORAGE_PREFIX}${fileId}`
+
+/**
+ * Records of every file
+ */
+export const getTimelapseRecords = async () => {
+  const recordKeys = (await keys()).filter((key) =>
+    String(key).startsWith(STORAGE_PREFIX)
+  )
+  return getMany<ITimelapseRecord>(recordKeys)
+}
+
+/**
+ * Board states of a record, from the base to the final state
+ */
+export const getTimelapseFrames = (record: ITimelapseRecord) => {
+  const frames: ITimelapseFrame[] = [
+    { time: record.startTime, data: cloneDeep(record.base) }
+  ]
+  record.operations.forEach(({ time, delta }) => {
+    const prev = frames[frames.length - 1].data
+    frames.push({
+      time,
+      data: patch(cloneDeep(prev), delta) as Partial<IBoardData>
+    })
+  })
+  return frames
+}
+
+/**
+ * Replay delay between two frames at 1x speed
+ */
+export const getFrameDelay = (
+  frame: ITimelapseFrame,
+  nextFrame?: ITimelapseFrame
+) => {
+  if (!nextFrame) {
+    return LAST_FRAME_DELAY
+  }
+  return Math.min(
+    Math.max(nextFrame.time - frame.time, MIN_FRAME_DELAY),
+    MAX_FRAME_DELAY
+  )
+}
+
+/**
+ * Timelapse Recorder
+ * Keeps every committed board state of the current file as a timestamped delta in IndexedDB
+ */
+export class TimelapseRecorder {
+  record: ITimelapseRecord | null = null
+  state: Partial<IBoardData> = {} // last recorded board state
+  loadingId = '' // file whose record is being loaded
+
+  /**
+   * Load the record of a file, start a new one if it has none
+   * @param fileId file id
+   * @param boardData current board state
+   */
+  async load(fileId: string, boardData: Partial<IBoardData>) {
+    this.save.flush()
+    this.record = null
+    this.loadingId = fileId
+    const record: ITimelapseRecord = (await get(getStorageKey(fileId))) ?? {
+      fileId,
+      startTime: Date.now(),
+      base: cloneDeep(boardData),
+      operations: []
+    }
+    // another file was opened meanwhile
+    if (this.loadingId !== fileId) {
+      return
+    }
+    const frames = getTimelapseFrames(record)
+    this.state = frames[frames.length - 1].data
+    this.record = record
+  }
+
+  /**
+   * Record a committed board state
+   * States committed before the record is loaded end up in the next delta.
+   */
+  add(boardData: Partial<IBoardData>) {
+    if (!this.record) {
+      return
+    }
+    const delta = diff(this.state, boardData)
+    if (!delta) {
+      return
+    }
+    this.record.operations.push({ time: Date.now(), delta })
+    this.state = cloneDeep(boardData)
+    this.compact()
+    this.save()
+  }
+
+  /**
+   * Keep MAX_OPERATIONS, the replay starts from the last folded state
+   */
+  compact() {
+    const record = this.record
+    if (!record || record.operations.length <= MAX_OPERATIONS) {
+      return
+    }
+    const folded = record.operations.splice(
+      0,
+      record.operations.length - MAX_OPERATIONS
+    )
+    folded.forEach(({ delta }) => {
+      record.base = patch(record.base, delta) as Partial<IBoardData>
+    })
+    record.startTime = folded[folded.length - 1].time
+  }
+
+  /**
+   * Write the pending record now, e.g. before the page goes away
+   */
+  flush() {
+    this.save.flush()
+  }
+
+  save = debounce(() => {
+    if (this.record) {
+      set(getStorageKey(this.record.fileId), this.record)
+    }
+  }, 1000)
+
+  async getRecord() {
+    this.save.flush()
+    return this.record
+  }
+
+  remove(fileId: string) {
+    if (this.record?.fileId === fileId) {
+      this.save.cancel()
+      this.record = null
+    }
+    del(getStorageKey(fileId))
+  }
+}
+
+export const timelapseRecorder = new TimelapseRecorder()
+
+/**
+ * Timelapse Player
+ * Replays the current file on the board, then restores its final state
+ */
+export class TimelapsePlayer {
+  frames: ITimelapseFrame[] = []
+  index = 0
+  speed = 1
+  isPlaying = false // replay is shown on the board
+  isPaused = false
+  isRestoring = false // the board is loaded back after the replay
+  finalData: Partial<IBoardData> = {} // board state before replaying
+  timer: ReturnType<typeof setTimeout> | undefined
+  onChange: (() => void) | undefined
+
+  /**
+   * Start replaying
+   * @param speed playback speed
+   * @param onChange called on every frame and when the replay stops
+   * @returns whether there is anything to replay
+   */
+  async play(speed: number, onChange?: () => void) {
+    const record = await timelapseRecorder.getRecord()
+    if (!paintBoard.canvas || !record?.operations.length) {
+      return false
+    }
+    this.stop()
+    this.frames = getTimelapseFrames(record)
+    this.finalData = getCanvasJSON()
+    this.index = 0
+    this.speed = speed
+    this.isPlaying = true
+    this.isPaused = false
+    this.onChange = onChange
+    paintBoard.canvas.discardActiveObject()
+    paintBoard.canvas.isDrawingMode = false
+    this.showFrame()
+    return true
+  }
+
+  pause() {
+    if (this.isPlaying && !this.isPaused) {
+      clearTimeout(this.timer)
+      this.isPaused = true
+      this.onChange?.()
+    }
+  }
+
+  resume() {
+    if (this.isPlaying && this.isPaused) {
+      this.isPaused = false
+      this.next()
+      this.onChange?.()
+    }
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed
+    if (this.isPlaying && !this.isPaused) {
+      clearTimeout(this.timer)
+      this.next()
+    }
+    this.onChange?.()
+  }
+
+  /**
+   * Stop replaying and restore the board
+   */
+  stop() {
+    if (!this.isPlaying) {
+      return
+    }
+    clearTimeout(this.timer)
+    this.isPlaying = false
+    this.isPaused = false
+    this.frames = []
+    const canvas = paintBoard.canvas
+    this.isRestoring = !!canvas
+    canvas?.loadFromJSON(this.finalData, () => {
+      handleCanvasJSONLoaded(canvas)
+      this.isRestoring = false
+      paintBoard.handleMode()
+      paintBoard.triggerHook()
+      // changes of the collaborators and the other tabs waited for the board
+      paintBoard.history?.applyQueuedRemote()
+    })
+    this.onChange?.()
+  }
+
+  showFrame() {
+    const canvas = paintBoard.canvas
+    const frame = this.frames[this.index]
+    if (!canvas || !frame) {
+      return
+    }
+    canvas.loadFromJSON(frame.data, () => {
+      if (!this.isPlaying) {
+        return
+      }
+      canvas.requestRenderAll()
+      this.onChange?.()
+      if (!this.isPaused) {
+        this.next()
+      }
+    })
+  }
+
+  next() {
+    const frame = this.frames[this.index]
+    const nextFrame = this.frames[this.index + 1]
+    clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      if (nextFrame) {
+        this.index++
+        this.showFrame()
+      } else {
+        this.stop()
+      }
+    }, getFrameDelay(frame, nextFrame) / this.speed)
+  }
+}
+
+export const timelapsePlayer = new TimelapsePlayer()
@@ -1,3 +1,4 @@
 /// <reference types="vite/client" />
 /// <reference types="vite-plugin-svgr/client" />
 /// <reference types="./types/index.d.ts" />
+/// <reference types="./types/gifenc.d.ts" />